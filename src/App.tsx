@@ -7,11 +7,12 @@ function App() {
   // Check if this is an OAuth callback based on query parameters
   const urlParams = new URLSearchParams(window.location.search);
   const code = urlParams.get('code');
+  const error = urlParams.get('error');
   const state = urlParams.get('state');
   
-  // Determine OAuth callback type from state parameter
+  // Determine OAuth callback type from state parameter (denied authorizations come back with an error instead of a code)
   let oauthType: 'inference' | 'mcp' | null = null;
-  if (code && state) {
+  if ((code || error) && state) {
     // The state parameter includes the callback type
     if (state.includes('inference:')) {
       oauthType = 'inference';
@@ -12,8 +12,13 @@ export function ChatInterface() {
     activeConversationId,
     getConversation,
     sendMessage,
+    sendPrompt,
     stopAgentLoop,
     getAgentLoopState,
+    resolveToolApproval,
+    pendingAttachments,
+    removeAttachment,
+    clearAttachments,
   } = useConversation();
   
   const { 
@@ -38,9 +43,13 @@ export function ChatInterface() {
       return;
     }
 
+    // Attachments are consumed by the message they're sent with
+    const attachments = pendingAttachments;
+    clearAttachments();
+
     setLoadingConversations(prev => new Set(prev).add(activeConversationId));
     try {
-      await sendMessage(activeConversationId, content);
+      await sendMessage(activeConversationId, content, attachments);
     } catch (error) {
       console.error('Failed to send message:', error);
     } finally {
@@ -52,6 +61,25 @@ export function ChatInterface() {
     }
   };
 
+  const handleSendPrompt = async (connectionId: string, promptName: string, args: Record<string, string>) => {
+    if (!activeConversationId || !isAuthenticated) {
+      return;
+    }
+
+    setLoadingConversations(prev => new Set(prev).add(activeConversationId));
+    try {
+      await sendPrompt(activeConversationId, connectionId, promptName, args);
+    } catch (error) {
+      console.error('Failed to run prompt:', error);
+    } finally {
+      setLoadingConversations(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(activeConversationId);
+        return newSet;
+      });
+    }
+  };
+
   const handleStopGeneration = () => {
     if (activeConversationId) {
       stopAgentLoop(activeConversationId);
@@ -84,6 +112,7 @@ export function ChatInterface() {
 
   const isCurrentConversationLoading = activeConversationId ? loadingConversations.has(activeConversationId) : false;
   const isGenerating = agentLoopState?.isRunning || isCurrentConversationLoading;
+  const isAwaitingApproval = !!activeConversation.pendingToolCalls?.some(call => call.status === 'awaiting_approval');
 
   return (
     <div className="flex-1 flex flex-col h-full">
@@ -132,7 +161,7 @@ export function ChatInterface() {
                 <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
                 <span>
                   {agentLoopState.currentStep === 'inference' && 'Thinking...'}
-                  {agentLoopState.currentStep === 'tool_execution' && 'Using tools...'}
+                  {agentLoopState.currentStep === 'tool_execution' && (isAwaitingApproval ? 'Waiting for tool approval...' : 'Using tools...')}
                   {agentLoopState.currentStep === 'complete' && 'Complete'}
                 </span>
                 <span className="text-gray-500">
@@ -148,6 +177,8 @@ export function ChatInterface() {
       <div className="flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-900">
         <MessageList 
           messages={activeConversation.messages}
+          pendingToolCalls={activeConversation.pendingToolCalls}
+          onResolveToolApproval={(toolCallId, decision) => resolveToolApproval(activeConversation.id, toolCallId, decision)}
           isLoading={isGenerating}
         />
         <div ref={messagesEndRef} />
@@ -155,8 +186,29 @@ export function ChatInterface() {
 
       {/* Input Area */}
       <div className="border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+        {pendingAttachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 px-4 pt-3">
+            {pendingAttachments.map((attachment) => (
+              <span
+                key={attachment.uri}
+                className="inline-flex items-center px-2 py-1 text-xs bg-indigo-100 dark:bg-indigo-900/50 text-indigo-800 dark:text-indigo-200 rounded"
+                title={attachment.uri}
+              >
+                📎 {attachment.name || attachment.uri}
+                <button
+                  onClick={() => removeAttachment(attachment.uri)}
+                  className="ml-1 text-indigo-600 dark:text-indigo-300 hover:text-indigo-900 dark:hover:text-white"
+                  title="Remove attachment"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
         <MessageInput
           onSendMessage={handleSendMessage}
+          onSendPrompt={handleSendPrompt}
           disabled={isGenerating}
           placeholder={
             isGenerating 
@@ -0,0 +1,146 @@
+// Text input that suggests values from the server's completion/complete as the user types
+
+import { useState, useEffect, useMemo, type KeyboardEvent } from 'react';
+import { useMCP } from '@/contexts/MCPContext';
+import type { MCPCompletionRef } from '@/types/mcp';
+
+// Wait for a pause in typing before asking the server
+const COMPLETION_DEBOUNCE_MS = 250;
+const MAX_SUGGESTIONS = 10;
+
+interface CompletionInputProps {
+  connectionId: string;
+  completionRef: MCPCompletionRef;
+  argumentName: string;
+  value: string;
+  onChange: (value: string) => void;
+  otherArguments?: Record<string, string>; // Sent as context so suggestions can depend on them
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+}
+
+export function CompletionInput({
+  connectionId,
+  completionRef,
+  argumentName,
+  value,
+  onChange,
+  otherArguments,
+  placeholder,
+  required,
+  className,
+}: CompletionInputProps) {
+  const { complete, getConnectionById } = useMCP();
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const supportsCompletions = !!getConnectionById(connectionId)?.serverCapabilities?.completions;
+  // Callers pass these objects inline, so rebuild them from their contents to avoid a request per render
+  const refType = completionRef.type;
+  const refKey = completionRef.type === 'ref/prompt' ? completionRef.name : completionRef.uri;
+  const contextKey = JSON.stringify(otherArguments || {});
+
+  const ref = useMemo<MCPCompletionRef>(
+    () => refType === 'ref/prompt' ? { type: 'ref/prompt', name: refKey } : { type: 'ref/resource', uri: refKey },
+    [refType, refKey]
+  );
+  const context = useMemo(() => {
+    const parsed: Record<string, string> = JSON.parse(contextKey);
+    return Object.keys(parsed).length > 0 ? parsed : undefined;
+  }, [contextKey]);
+
+  useEffect(() => {
+    if (!supportsCompletions || !isFocused) {
+      setSuggestions([]);
+      return;
+    }
+
+    // Each keystroke cancels the previous request, including one already sent
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const values = await complete(connectionId, {
+          ref,
+          argument: { name: argumentName, value },
+          context,
+        }, controller.signal);
+
+        if (!controller.signal.aborted) {
+          setSuggestions(values.filter(suggestion => suggestion !== value).slice(0, MAX_SUGGESTIONS));
+          setHighlighted(0);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn(`Completion for ${argumentName} failed:`, error);
+          setSuggestions([]);
+        }
+      }
+    }, COMPLETION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [connectionId, ref, argumentName, value, context, isFocused, supportsCompletions, complete]);
+
+  const selectSuggestion = (suggestion: string) => {
+    onChange(suggestion);
+    setSuggestions([]);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      selectSuggestion(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        placeholder={placeholder}
+        required={required}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        onKeyDown={handleKeyDown}
+        autoComplete="off"
+        className={className}
+      />
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 max-h-40 overflow-y-auto rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-lg">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion}
+              // mousedown fires before the input's blur, so the click isn't lost
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectSuggestion(suggestion);
+              }}
+              className={`px-2 py-1 text-xs cursor-pointer text-gray-900 dark:text-white ${
+                index === highlighted ? 'bg-blue-100 dark:bg-blue-900/50' : 'hover:bg-gray-50 dark:hover:bg-gray-600'
+              }`}
+            >
+              {suggestion}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useState, useRef, useCallback } from 'react';
 import { ConversationProvider } from '@/contexts/ConversationContext';
 import { TabbedSidebar } from './TabbedSidebar';
 import { ChatInterface } from './ChatInterface';
+import { SamplingRequestDialog } from './SamplingRequestDialog';
+import { ElicitationDialog } from './ElicitationDialog';
 
 export function ConversationApp() {
   const [sidebarWidth, setSidebarWidth] = useState(320);
@@ -56,6 +58,10 @@ export function ConversationApp() {
           <ChatInterface />
         </div>
       </div>
+
+      {/* Server-initiated requests */}
+      <SamplingRequestDialog />
+      <ElicitationDialog />
     </ConversationProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,293 @@
+// Modal form rendering an MCP server's elicitation schema
+
+import { useState, type FormEvent } from 'react';
+import type {
+  MultiSelectEnumSchema,
+  PrimitiveSchemaDefinition,
+  StringSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { useMCP } from '@/contexts/MCPContext';
+import type { PendingElicitationRequest } from '@/types/mcp';
+
+type FieldValue = string | number | boolean | string[];
+
+// Enum options from either enum/enumNames or oneOf/anyOf [{ const, title }]
+function getOptions(
+  schema: PrimitiveSchemaDefinition | MultiSelectEnumSchema['items']
+): { value: string; label: string }[] | undefined {
+  if ('enum' in schema) {
+    const enumNames = 'enumNames' in schema ? schema.enumNames : undefined;
+    return schema.enum.map((value, index) => ({
+      value,
+      label: enumNames?.[index] ?? value,
+    }));
+  }
+  const choices = 'oneOf' in schema ? schema.oneOf : 'anyOf' in schema ? schema.anyOf : undefined;
+  return choices?.map(choice => ({ value: choice.const, label: choice.title ?? choice.const }));
+}
+
+// Free-text string fields, as opposed to single-select enums that also have type "string"
+function isStringSchema(schema: PrimitiveSchemaDefinition): schema is StringSchema {
+  return schema.type === 'string' && !('enum' in schema) && !('oneOf' in schema);
+}
+
+function getInitialValues(request: PendingElicitationRequest['request']): Record<string, FieldValue> {
+  const values: Record<string, FieldValue> = {};
+  for (const [name, schema] of Object.entries(request.requestedSchema.properties)) {
+    if (schema.default !== undefined) {
+      values[name] = schema.default;
+    } else if (schema.type === 'boolean') {
+      values[name] = false;
+    } else if (schema.type === 'array') {
+      values[name] = [];
+    }
+  }
+  return values;
+}
+
+function isDateTimeField(schema: PrimitiveSchemaDefinition | undefined): boolean {
+  return !!schema && isStringSchema(schema) && schema.format === 'date-time';
+}
+
+// Returns an error message for the first invalid field, if any
+function validate(request: PendingElicitationRequest['request'], values: Record<string, FieldValue>): string | undefined {
+  const required = request.requestedSchema.required || [];
+
+  for (const [name, schema] of Object.entries(request.requestedSchema.properties)) {
+    const label = schema.title || name;
+    const value = values[name];
+    const isEmpty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+    if (isEmpty) {
+      if (required.includes(name)) {
+        return `${label} is required`;
+      }
+      continue;
+    }
+
+    if ((schema.type === 'number' || schema.type === 'integer') && typeof value === 'number') {
+      if (schema.type === 'integer' && !Number.isInteger(value)) return `${label} must be a whole number`;
+      if (schema.minimum !== undefined && value < schema.minimum) return `${label} must be at least ${schema.minimum}`;
+      if (schema.maximum !== undefined && value > schema.maximum) return `${label} must be at most ${schema.maximum}`;
+    }
+
+    if (isStringSchema(schema) && typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) return `${label} must be at least ${schema.minLength} characters`;
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) return `${label} must be at most ${schema.maxLength} characters`;
+    }
+  }
+
+  return undefined;
+}
+
+export function ElicitationDialog() {
+  const { elicitationRequests } = useMCP();
+
+  // Requests are shown one at a time, oldest first
+  const pending = elicitationRequests[0];
+
+  if (!pending) {
+    return null;
+  }
+
+  // Keyed so the next request starts from its own initial values
+  return <ElicitationForm key={pending.id} pending={pending} />;
+}
+
+function ElicitationForm({ pending }: { pending: PendingElicitationRequest }) {
+  const { resolveElicitationRequest } = useMCP();
+  const [values, setValues] = useState<Record<string, FieldValue>>(() => getInitialValues(pending.request));
+  const [error, setError] = useState<string | null>(null);
+
+  const { request } = pending;
+  const required = request.requestedSchema.required || [];
+
+  const setValue = (name: string, value: FieldValue | undefined) => {
+    setValues(prev => {
+      const next = { ...prev };
+      if (value === undefined) {
+        delete next[name];
+      } else {
+        next[name] = value;
+      }
+      return next;
+    });
+    setError(null);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const validationError = validate(request, values);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    // Omit optional fields left empty. datetime-local inputs have no timezone, so send ISO strings.
+    const properties = request.requestedSchema.properties;
+    const content = Object.fromEntries(
+      Object.entries(values)
+        .filter(([name, value]) =>
+          required.includes(name) || (value !== '' && !(Array.isArray(value) && value.length === 0))
+        )
+        .map(([name, value]) => [
+          name,
+          isDateTimeField(properties[name]) && typeof value === 'string' ? new Date(value).toISOString() : value,
+        ])
+    );
+    resolveElicitationRequest(pending.id, { action: 'accept', content });
+  };
+
+  const renderField = (name: string, schema: PrimitiveSchemaDefinition) => {
+    const inputClassName = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500';
+    const value = values[name];
+
+    if (schema.type === 'boolean') {
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => setValue(name, e.target.checked)}
+          className="h-4 w-4"
+        />
+      );
+    }
+
+    if (schema.type === 'array') {
+      const options = getOptions(schema.items) || [];
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-1">
+          {options.map(option => (
+            <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={(e) => setValue(name, e.target.checked
+                  ? [...selected, option.value]
+                  : selected.filter(item => item !== option.value))}
+              />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    const options = getOptions(schema);
+    if (options) {
+      return (
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => setValue(name, e.target.value || undefined)}
+          className={inputClassName}
+        >
+          <option value="">Select...</option>
+          {options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (schema.type === 'number' || schema.type === 'integer') {
+      return (
+        <input
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          min={schema.minimum}
+          max={schema.maximum}
+          step={schema.type === 'integer' ? 1 : 'any'}
+          onChange={(e) => setValue(name, e.target.value === '' ? undefined : Number(e.target.value))}
+          className={inputClassName}
+        />
+      );
+    }
+
+    if (!isStringSchema(schema)) {
+      return null;
+    }
+
+    const inputType = schema.format === 'email' ? 'email'
+      : schema.format === 'uri' ? 'url'
+      : schema.format === 'date' ? 'date'
+      : schema.format === 'date-time' ? 'datetime-local'
+      : 'text';
+
+    return (
+      <input
+        type={inputType}
+        value={typeof value === 'string' ? value : ''}
+        minLength={schema.minLength}
+        maxLength={schema.maxLength}
+        onChange={(e) => setValue(name, e.target.value)}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-lg shadow-xl flex flex-col max-h-[80vh]"
+      >
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Input requested
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              from <span className="font-medium">{pending.serverName}</span>
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => resolveElicitationRequest(pending.id, { action: 'cancel' })}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="Cancel"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{request.message}</p>
+
+          {Object.entries(request.requestedSchema.properties).map(([name, schema]) => (
+            <div key={name}>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {schema.title || name}
+                {required.includes(name) && <span className="text-red-500 ml-0.5">*</span>}
+              </label>
+              {schema.description && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{schema.description}</p>
+              )}
+              {renderField(name, schema)}
+            </div>
+          ))}
+
+          {error && (
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={() => resolveElicitationRequest(pending.id, { action: 'decline' })}
+            className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Decline
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Submit
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
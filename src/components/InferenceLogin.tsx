@@ -4,24 +4,61 @@ import { useState, useMemo } from 'react';
 import { useInference } from '@/contexts/InferenceContext';
 import { OpenRouterApiProvider } from '@/providers/openrouter/api-provider';
 import { OpenRouterOAuthProvider } from '@/providers/openrouter/oauth-provider';
+import { AnthropicApiProvider } from '@/providers/anthropic/api-provider';
+import { OpenAICompatibleProvider, loadStoredOpenAICompatibleConfig } from '@/providers/openai-compatible/provider';
+import { MockInferenceProvider } from '@/providers/mock/provider';
+import type { InferenceProvider } from '@/types/inference';
+
+// Format a headers object as the "Header-Name: value" lines the headers field takes
+function formatHeaders(headers: Record<string, string> = {}): string {
+  return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+}
 
 export function InferenceLogin() {
   const { provider: currentProvider, setProvider, models, refreshAuthState } = useInference();
   const [selectedProviderId, setSelectedProviderId] = useState(currentProvider?.id || '');
   const [apiKey, setApiKey] = useState('');
+  // Prefill the endpoint fields from the last configuration that connected
+  const [baseUrl, setBaseUrl] = useState(() => loadStoredOpenAICompatibleConfig()?.baseUrl || '');
+  const [customHeaders, setCustomHeaders] = useState(() => formatHeaders(loadStoredOpenAICompatibleConfig()?.headers));
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Create available providers
-  const availableProviders = useMemo(() => [
-    new OpenRouterApiProvider(),
-    new OpenRouterOAuthProvider(),
-  ], []);
+  // Create available providers (the scripted mock provider is only offered in dev builds)
+  const availableProviders = useMemo(() => {
+    const providers: InferenceProvider[] = [
+      new OpenRouterApiProvider(),
+      new OpenRouterOAuthProvider(),
+      new AnthropicApiProvider(),
+      new OpenAICompatibleProvider(),
+    ];
+    if (import.meta.env.DEV) {
+      providers.push(new MockInferenceProvider());
+    }
+    return providers;
+  }, []);
 
   const selectedProvider = availableProviders.find(p => p.id === selectedProviderId);
+  const capabilities = selectedProvider?.getCapabilities();
+
+  // API keys are optional for providers that don't require auth, but custom endpoints need a URL
+  const canSubmitApiKey = (!capabilities?.requiresAuth || !!apiKey.trim()) &&
+    (!capabilities?.supportsCustomEndpoint || !!baseUrl.trim());
+
+  // Parse "Header-Name: value" lines into a headers object
+  const parseHeaders = (text: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+      const separatorIndex = line.indexOf(':');
+      if (separatorIndex > 0) {
+        headers[line.slice(0, separatorIndex).trim()] = line.slice(separatorIndex + 1).trim();
+      }
+    }
+    return headers;
+  };
 
   const handleApiKeyLogin = async () => {
-    if (!selectedProvider || !apiKey.trim()) return;
+    if (!selectedProvider || !canSubmitApiKey) return;
 
     setIsLoading(true);
     setError(null);
@@ -30,6 +67,10 @@ export function InferenceLogin() {
       await selectedProvider.authenticate({
         type: 'api_key',
         apiKey: apiKey.trim(),
+        ...(capabilities?.supportsCustomEndpoint && {
+          baseUrl: baseUrl.trim(),
+          headers: parseHeaders(customHeaders),
+        }),
       });
 
       // Load models after authentication
@@ -46,6 +87,26 @@ export function InferenceLogin() {
     }
   };
 
+  // For providers that need no credentials at all
+  const handleConnectWithoutAuth = async () => {
+    if (!selectedProvider) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await selectedProvider.authenticate({ type: 'api_key' });
+      await selectedProvider.loadModels();
+
+      setProvider(selectedProvider);
+      refreshAuthState();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Connection failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleOAuthLogin = async () => {
     if (!selectedProvider) return;
 
@@ -67,7 +128,6 @@ export function InferenceLogin() {
     }
   };
 
-  const capabilities = selectedProvider?.getCapabilities();
 
   return (
     <div className="max-w-md mx-auto bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
@@ -107,11 +167,44 @@ export function InferenceLogin() {
 
       {selectedProvider && capabilities && (
         <div className="space-y-4">
+          {/* Custom Endpoint Configuration */}
+          {capabilities.supportsCustomEndpoint && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Base URL
+                </label>
+                <input
+                  type="url"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Custom Headers
+                </label>
+                <textarea
+                  value={customHeaders}
+                  onChange={(e) => setCustomHeaders(e.target.value)}
+                  placeholder="X-Header-Name: value"
+                  rows={2}
+                  className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  One header per line
+                </p>
+              </div>
+            </>
+          )}
+
           {/* API Key Authentication */}
           {capabilities.authMethods.includes('api_key') && (
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                API Key
+                API Key{!capabilities.requiresAuth && ' (optional)'}
               </label>
               <div className="flex space-x-2">
                 <input
@@ -121,14 +214,14 @@ export function InferenceLogin() {
                   placeholder="Enter your API key..."
                   className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   onKeyDown={(e) => {
-                    if (e.key === 'Enter' && apiKey.trim()) {
+                    if (e.key === 'Enter' && canSubmitApiKey) {
                       handleApiKeyLogin();
                     }
                   }}
                 />
                 <button
                   onClick={handleApiKeyLogin}
-                  disabled={!apiKey.trim() || isLoading}
+                  disabled={!canSubmitApiKey || isLoading}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isLoading ? 'Connecting...' : 'Connect'}
@@ -140,6 +233,17 @@ export function InferenceLogin() {
             </div>
           )}
 
+          {/* No Authentication */}
+          {capabilities.authMethods.length === 0 && (
+            <button
+              onClick={handleConnectWithoutAuth}
+              disabled={isLoading}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Connecting...' : `Use ${selectedProvider.name}`}
+            </button>
+          )}
+
           {/* OAuth Authentication */}
           {capabilities.authMethods.includes('oauth') && (
             <div>
@@ -42,7 +42,7 @@ export function InferenceMessageMonitor() {
       case 'error':
         return `Error from ${message.model || 'default model'}`;
       case 'stream_chunk':
-        return `Stream chunk from ${message.model || 'default model'}`;
+        return `Streaming from ${message.model || 'default model'} (${message.streamChunks?.length || 0} chunks)`;
       default:
         return 'Unknown message type';
     }
@@ -142,6 +142,22 @@ export function InferenceMessageMonitor() {
                   </details>
                 )}
                 
+                {/* Stream chunks */}
+                {message.streamChunks && (
+                  <details className="text-gray-600 dark:text-gray-300 mt-2">
+                    <summary className="cursor-pointer hover:text-gray-800 dark:hover:text-gray-100">
+                      Stream Chunks
+                    </summary>
+                    <pre className="mt-1 text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded overflow-x-auto">
+                      {message.streamChunks
+                        .map(chunk => chunk.type === 'text_delta'
+                          ? chunk.text
+                          : `[tool_call ${chunk.toolCallIndex}${chunk.toolName ? ` ${chunk.toolName}` : ''}] ${chunk.argumentsDelta || ''}`)
+                        .join('\n')}
+                    </pre>
+                  </details>
+                )}
+                
                 {/* Error details */}
                 {message.error && (
                   <details className="text-gray-600 dark:text-gray-300 mt-2">
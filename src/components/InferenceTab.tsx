@@ -125,7 +125,7 @@ export function InferenceTab() {
                       </div>
                     )}
                     <div className="text-gray-500 dark:text-gray-400 mt-1">
-                      Context: {model.contextLength?.toLocaleString() || 'Unknown'}
+                      Context: {model.contextLength ? model.contextLength.toLocaleString() : 'Unknown'}
                     </div>
                   </div>
                 ))}
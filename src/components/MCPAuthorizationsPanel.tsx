@@ -0,0 +1,158 @@
+// OAuth registrations and tokens per server, with revoke / forget / re-authorize actions
+
+import { useState } from 'react';
+import { useMCP } from '@/contexts/MCPContext';
+import { getErrorMessage } from '@/utils/errors';
+import type { MCPAuthorizationInfo } from '@/types/mcp';
+
+export function MCPAuthorizationsPanel() {
+  const { getAuthorizations, revokeAuthorization, forgetClientRegistration, reauthorize } = useMCP();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ connectionId: string; text: string; isError: boolean } | null>(null);
+  // Forgetting a registration changes storage without touching connection state, so re-render explicitly
+  const [, setVersion] = useState(0);
+
+  const authorizations = getAuthorizations();
+
+  const runAction = async (info: MCPAuthorizationInfo, action: () => Promise<string | undefined>) => {
+    setBusyId(info.connectionId);
+    setNotice(null);
+    try {
+      const text = await action();
+      if (text) {
+        setNotice({ connectionId: info.connectionId, text, isError: false });
+      }
+    } catch (err) {
+      setNotice({
+        connectionId: info.connectionId,
+        text: getErrorMessage(err, 'Action failed'),
+        isError: true,
+      });
+    } finally {
+      setBusyId(null);
+      setVersion(version => version + 1);
+    }
+  };
+
+  const handleRevoke = (info: MCPAuthorizationInfo) => {
+    if (!confirm(`Revoke access for ${info.serverName}? The server will be disconnected.`)) return;
+
+    runAction(info, async () => {
+      const revokedOnServer = await revokeAuthorization(info.connectionId);
+      return revokedOnServer
+        ? 'Tokens revoked.'
+        : 'The server has no revocation endpoint; tokens were removed from this browser only.';
+    });
+  };
+
+  const handleForget = (info: MCPAuthorizationInfo) => {
+    if (!confirm(`Forget the client registration for ${info.serverName}? Other connections to the same server will have to register again.`)) return;
+
+    runAction(info, async () => {
+      forgetClientRegistration(info.connectionId);
+      return 'Client registration forgotten.';
+    });
+  };
+
+  const handleReauthorize = (info: MCPAuthorizationInfo) => {
+    runAction(info, async () => {
+      await reauthorize(info.connectionId);
+      return undefined;
+    });
+  };
+
+  const formatExpiry = (expiresAt?: Date): string => {
+    if (!expiresAt) return 'No expiry';
+    return expiresAt.getTime() <= Date.now()
+      ? `Expired ${expiresAt.toLocaleString()}`
+      : `Expires ${expiresAt.toLocaleString()}`;
+  };
+
+  const buttonClassName = 'px-2 py-1 text-xs rounded disabled:opacity-50';
+
+  if (authorizations.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        No OAuth authorizations stored.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {authorizations.map(info => (
+        <div
+          key={info.connectionId}
+          className="bg-white dark:bg-gray-700 rounded-lg p-3 border border-gray-200 dark:border-gray-600"
+        >
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white truncate">{info.serverName}</h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{info.serverUrl}</p>
+
+          <div className="mt-2 space-y-0.5 text-xs text-gray-700 dark:text-gray-300">
+            <p>
+              <span className="font-medium">Client:</span>{' '}
+              {info.clientId ? (
+                <>
+                  <span className="font-mono">{info.clientId}</span>
+                  {info.clientIdIssuedAt && ` (registered ${info.clientIdIssuedAt.toLocaleDateString()})`}
+                </>
+              ) : 'Not registered'}
+            </p>
+            {info.hasAccessToken ? (
+              <>
+                <p>
+                  <span className="font-medium">Scopes:</span> {info.scope || 'Not specified'}
+                </p>
+                <p>
+                  <span className="font-medium">Token:</span> {formatExpiry(info.expiresAt)}
+                  {info.hasRefreshToken && ' · refreshable'}
+                </p>
+                <p>
+                  <span className="font-medium">Last used:</span> {info.lastUsedAt ? info.lastUsedAt.toLocaleString() : 'Never'}
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400">
+                {info.authorizationPending ? 'Authorization in progress' : 'No tokens'}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-1 mt-2">
+            <button
+              onClick={() => handleReauthorize(info)}
+              disabled={busyId === info.connectionId}
+              className={`${buttonClassName} bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-800`}
+            >
+              Re-authorize
+            </button>
+            {info.hasAccessToken && (
+              <button
+                onClick={() => handleRevoke(info)}
+                disabled={busyId === info.connectionId}
+                className={`${buttonClassName} bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200 hover:bg-red-200 dark:hover:bg-red-800`}
+              >
+                Revoke
+              </button>
+            )}
+            {info.clientId && (
+              <button
+                onClick={() => handleForget(info)}
+                disabled={busyId === info.connectionId}
+                className={`${buttonClassName} bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-500`}
+              >
+                Forget registration
+              </button>
+            )}
+          </div>
+
+          {notice?.connectionId === info.connectionId && (
+            <p className={`text-xs mt-2 ${notice.isError ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+              {notice.text}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
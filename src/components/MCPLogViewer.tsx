@@ -0,0 +1,148 @@
+// Per-connection viewer for server log entries (notifications/message)
+
+import { useState } from 'react';
+import { useMCP } from '@/contexts/MCPContext';
+import { getErrorMessage } from '@/utils/errors';
+import type { MCPLogLevel } from '@/types/mcp';
+
+// Syslog severities from the MCP spec, least severe first
+const LOG_LEVELS: MCPLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const getLevelClassName = (level: MCPLogLevel): string => {
+  switch (level) {
+    case 'debug':
+      return 'text-gray-500 dark:text-gray-400';
+    case 'info':
+    case 'notice':
+      return 'text-blue-600 dark:text-blue-400';
+    case 'warning':
+      return 'text-amber-600 dark:text-amber-400';
+    default:
+      return 'text-red-600 dark:text-red-400';
+  }
+};
+
+export function MCPLogViewer() {
+  const { connections, logs, setLogLevel, clearLogs } = useMCP();
+  const [connectionId, setConnectionId] = useState<string>('');
+  const [minLevel, setMinLevel] = useState<MCPLogLevel>('debug');
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedConnection = connections.find(conn => conn.id === connectionId);
+  const displayLogs = logs.filter(entry =>
+    (!connectionId || entry.connectionId === connectionId) &&
+    LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(minLevel)
+  );
+
+  const handleServerLevelChange = async (level: MCPLogLevel) => {
+    if (!selectedConnection) return;
+
+    setError(null);
+    try {
+      await setLogLevel(selectedConnection.id, level);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to set log level'));
+    }
+  };
+
+  const formatData = (data: unknown): string => {
+    return typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+  };
+
+  const selectClassName = 'px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={connectionId}
+          onChange={(e) => {
+            setConnectionId(e.target.value);
+            setError(null);
+          }}
+          className={selectClassName}
+        >
+          <option value="">All servers</option>
+          {connections.map(conn => (
+            <option key={conn.id} value={conn.id}>{conn.name}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
+          <span>Show</span>
+          <select
+            value={minLevel}
+            onChange={(e) => setMinLevel(e.target.value as MCPLogLevel)}
+            className={selectClassName}
+          >
+            {LOG_LEVELS.map(level => (
+              <option key={level} value={level}>{level}+</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={() => clearLogs(connectionId || undefined)}
+          className="ml-auto text-xs px-2 py-1 bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200 rounded hover:bg-red-200 dark:hover:bg-red-800"
+        >
+          Clear
+        </button>
+      </div>
+
+      {selectedConnection && (
+        selectedConnection.serverCapabilities?.logging ? (
+          <label className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
+            <span>Server sends</span>
+            <select
+              value={selectedConnection.config.logLevel || ''}
+              onChange={(e) => handleServerLevelChange(e.target.value as MCPLogLevel)}
+              disabled={selectedConnection.status !== 'connected'}
+              className={selectClassName}
+            >
+              {!selectedConnection.config.logLevel && <option value="">Server default</option>}
+              {LOG_LEVELS.map(level => (
+                <option key={level} value={level}>{level} and above</option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {selectedConnection.status === 'connected'
+              ? `${selectedConnection.name} does not support logging.`
+              : 'Connect this server to change its log level.'}
+          </p>
+        )
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="border border-gray-200 dark:border-gray-600 rounded-lg">
+        {displayLogs.length === 0 ? (
+          <p className="p-3 text-center text-xs text-gray-500 dark:text-gray-400">
+            No log entries yet.
+          </p>
+        ) : (
+          <div className="p-2 space-y-1 font-mono">
+            {displayLogs.map(entry => (
+              <div key={entry.id} className="text-xs">
+                <div className="flex items-center space-x-2">
+                  <span className="text-gray-500 dark:text-gray-400">{entry.timestamp.toLocaleTimeString()}</span>
+                  <span className={`font-medium uppercase ${getLevelClassName(entry.level)}`}>{entry.level}</span>
+                  {!connectionId && (
+                    <span className="text-gray-500 dark:text-gray-400">{entry.serverName}</span>
+                  )}
+                  {entry.logger && (
+                    <span className="text-gray-500 dark:text-gray-400">[{entry.logger}]</span>
+                  )}
+                </div>
+                <pre className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">{formatData(entry.data)}</pre>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
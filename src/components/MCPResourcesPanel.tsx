@@ -0,0 +1,378 @@
+// Resource browser listing resources and templates per server, with preview, attach and subscribe
+
+import { useState, useEffect } from 'react';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { useMCP } from '@/contexts/MCPContext';
+import { useConversation } from '@/contexts/ConversationContext';
+import { getErrorMessage } from '@/utils/errors';
+import { CompletionInput } from './CompletionInput';
+import type { MCPConnection, MCPResourceContents } from '@/types/mcp';
+
+// Attachments are persisted with the conversation in localStorage, so keep them small
+const MAX_ATTACHMENT_SIZE = 1_000_000;
+const PREVIEW_TEXT_LIMIT = 5_000;
+
+interface ResourcePreview {
+  connectionId: string;
+  uri: string;
+  name?: string;
+  contents?: MCPResourceContents[];
+  error?: string;
+  isLoading: boolean;
+}
+
+export function MCPResourcesPanel() {
+  const {
+    connections,
+    readResource,
+    subscribeResource,
+    unsubscribeResource,
+    markResourceUpdateSeen,
+    resourceUpdateNotes,
+    setResourceUpdateNotes,
+  } = useMCP();
+  const { attachResource } = useConversation();
+  const [preview, setPreview] = useState<ResourcePreview | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, Record<string, string>>>({});
+  const [subscriptionError, setSubscriptionError] = useState<string | null>(null);
+
+  // A previewed subscription shows its latest contents, and viewing them clears the update badge
+  const previewSubscription = preview && connections
+    .find(conn => conn.id === preview.connectionId)?.subscriptions
+    .find(sub => sub.uri === preview.uri);
+
+  useEffect(() => {
+    if (preview && !preview.isLoading && previewSubscription?.hasUnseenUpdate) {
+      markResourceUpdateSeen(preview.connectionId, preview.uri);
+    }
+  }, [preview, previewSubscription, markResourceUpdateSeen]);
+
+  const serversWithResources = connections.filter(conn =>
+    conn.status === 'connected' && (conn.resources.length > 0 || conn.resourceTemplates.length > 0)
+  );
+
+  const loadPreview = async (connectionId: string, uri: string, name?: string) => {
+    setPreview({ connectionId, uri, name, isLoading: true });
+    try {
+      const contents = await readResource(connectionId, uri);
+      setPreview({ connectionId, uri, name, contents, isLoading: false });
+      return contents;
+    } catch (error) {
+      const message = getErrorMessage(error, 'Failed to read resource');
+      setPreview({ connectionId, uri, name, error: message, isLoading: false });
+      return undefined;
+    }
+  };
+
+  const attachContents = (connection: MCPConnection, contents: MCPResourceContents[], name?: string) => {
+    for (const item of contents) {
+      const size = (item.text ?? item.blob ?? '').length;
+      if (size > MAX_ATTACHMENT_SIZE) {
+        setPreview(prev => prev && { ...prev, error: `${item.uri} is too large to attach (${size} characters)` });
+        continue;
+      }
+
+      attachResource({
+        type: 'resource',
+        uri: item.uri,
+        serverName: connection.name,
+        name: contents.length === 1 ? name : undefined,
+        mimeType: item.mimeType,
+        text: item.text,
+        blob: item.blob,
+      });
+    }
+  };
+
+  const handleAttach = async (connection: MCPConnection, uri: string, name?: string) => {
+    const contents = preview?.connectionId === connection.id && preview.uri === uri && preview.contents
+      ? preview.contents
+      : await loadPreview(connection.id, uri, name);
+
+    if (contents) {
+      attachContents(connection, contents, name);
+    }
+  };
+
+  const toggleSubscription = async (connection: MCPConnection, uri: string) => {
+    setSubscriptionError(null);
+    try {
+      if (connection.subscriptions.some(sub => sub.uri === uri)) {
+        await unsubscribeResource(connection.id, uri);
+      } else {
+        await subscribeResource(connection.id, uri);
+      }
+    } catch (error) {
+      setSubscriptionError(getErrorMessage(error, 'Subscription failed'));
+    }
+  };
+
+  const renderSubscribeButton = (connection: MCPConnection, uri?: string) => {
+    if (!connection.serverCapabilities?.resources?.subscribe) {
+      return null;
+    }
+
+    const isSubscribed = !!uri && connection.subscriptions.some(sub => sub.uri === uri);
+    return (
+      <button
+        onClick={() => uri && toggleSubscription(connection, uri)}
+        disabled={!uri}
+        className={`px-2 py-1 text-xs rounded disabled:opacity-50 ${
+          isSubscribed
+            ? 'bg-orange-100 dark:bg-orange-900/50 text-orange-800 dark:text-orange-200 hover:bg-orange-200 dark:hover:bg-orange-800'
+            : 'bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-500'
+        }`}
+        title={isSubscribed ? 'Stop watching this resource for updates' : 'Watch this resource for updates'}
+      >
+        {isSubscribed ? 'Unsubscribe' : 'Subscribe'}
+      </button>
+    );
+  };
+
+  const renderUpdateBadge = (connection: MCPConnection, uri: string) => {
+    const subscription = connection.subscriptions.find(sub => sub.uri === uri);
+    if (!subscription?.hasUnseenUpdate) {
+      return null;
+    }
+
+    return (
+      <span
+        className="ml-1 px-1 py-0.5 text-xs bg-orange-100 dark:bg-orange-900/50 text-orange-800 dark:text-orange-200 rounded"
+        title={subscription.updatedAt ? `Updated at ${subscription.updatedAt.toLocaleTimeString()}` : undefined}
+      >
+        Updated
+      </span>
+    );
+  };
+
+  const expandTemplate = (uriTemplate: string, key: string): string | undefined => {
+    try {
+      const template = new UriTemplate(uriTemplate);
+      const values = templateValues[key] || {};
+      if (template.variableNames.some(name => !values[name])) {
+        return undefined;
+      }
+      return template.expand(values);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const getTemplateVariables = (uriTemplate: string): string[] => {
+    try {
+      return new UriTemplate(uriTemplate).variableNames;
+    } catch {
+      return [];
+    }
+  };
+
+  const setTemplateValue = (key: string, variable: string, value: string) => {
+    setTemplateValues(prev => ({
+      ...prev,
+      [key]: { ...prev[key], [variable]: value },
+    }));
+  };
+
+  const renderPreviewContents = (item: MCPResourceContents, index: number) => {
+    if (item.text !== undefined) {
+      const truncated = item.text.length > PREVIEW_TEXT_LIMIT;
+      return (
+        <div key={index}>
+          <pre className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap max-h-48 overflow-y-auto">
+            {truncated ? item.text.slice(0, PREVIEW_TEXT_LIMIT) : item.text}
+          </pre>
+          {truncated && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Showing {PREVIEW_TEXT_LIMIT} of {item.text.length} characters
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    if (item.blob && item.mimeType?.startsWith('image/')) {
+      return (
+        <img
+          key={index}
+          src={`data:${item.mimeType};base64,${item.blob}`}
+          alt={item.uri}
+          className="max-h-48 rounded"
+        />
+      );
+    }
+
+    return (
+      <p key={index} className="text-xs text-gray-500 dark:text-gray-400">
+        Binary content ({item.mimeType || 'unknown type'}, ~{Math.floor((item.blob?.length || 0) * 3 / 4)} bytes)
+      </p>
+    );
+  };
+
+  if (serversWithResources.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No connected server exposes resources.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {serversWithResources.some(conn => conn.serverCapabilities?.resources?.subscribe) && (
+        <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={resourceUpdateNotes}
+            onChange={(e) => setResourceUpdateNotes(e.target.checked)}
+          />
+          <span>Add a note to the conversation when an attached resource changes</span>
+        </label>
+      )}
+
+      {subscriptionError && (
+        <p className="text-xs text-red-600 dark:text-red-400">{subscriptionError}</p>
+      )}
+
+      {serversWithResources.map((connection) => (
+        <div key={connection.id}>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+            {connection.name}
+          </h4>
+
+          <div className="space-y-1">
+            {connection.resources.map((resource) => (
+              <div
+                key={resource.uri}
+                className="flex items-center justify-between bg-white dark:bg-gray-700 rounded p-2 border border-gray-200 dark:border-gray-600"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium text-gray-900 dark:text-white truncate">
+                    {resource.name}
+                    {renderUpdateBadge(connection, resource.uri)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={resource.description}>
+                    {resource.uri}
+                  </p>
+                </div>
+                <div className="flex space-x-1 ml-2">
+                  <button
+                    onClick={() => loadPreview(connection.id, resource.uri, resource.name)}
+                    className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded hover:bg-gray-200 dark:hover:bg-gray-500"
+                  >
+                    Preview
+                  </button>
+                  <button
+                    onClick={() => handleAttach(connection, resource.uri, resource.name)}
+                    className="px-2 py-1 text-xs bg-indigo-100 dark:bg-indigo-900/50 text-indigo-800 dark:text-indigo-200 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800"
+                  >
+                    Attach
+                  </button>
+                  {renderSubscribeButton(connection, resource.uri)}
+                </div>
+              </div>
+            ))}
+
+            {connection.resourceTemplates.map((template) => {
+              const key = `${connection.id}:${template.uriTemplate}`;
+              const expandedUri = expandTemplate(template.uriTemplate, key);
+              return (
+                <div
+                  key={key}
+                  className="bg-white dark:bg-gray-700 rounded p-2 border border-dashed border-gray-300 dark:border-gray-500"
+                >
+                  <p className="text-xs font-medium text-gray-900 dark:text-white truncate">
+                    {template.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={template.description}>
+                    {template.uriTemplate}
+                  </p>
+                  <div className="mt-1 space-y-1">
+                    {getTemplateVariables(template.uriTemplate).map((variable) => (
+                      <CompletionInput
+                        key={variable}
+                        connectionId={connection.id}
+                        completionRef={{ type: 'ref/resource', uri: template.uriTemplate }}
+                        argumentName={variable}
+                        placeholder={variable}
+                        value={templateValues[key]?.[variable] || ''}
+                        onChange={(value) => setTemplateValue(key, variable, value)}
+                        otherArguments={Object.fromEntries(
+                          Object.entries(templateValues[key] || {}).filter(([name, value]) => name !== variable && value)
+                        )}
+                        className="w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      />
+                    ))}
+                  </div>
+                  <div className="flex space-x-1 mt-1">
+                    <button
+                      onClick={() => expandedUri && loadPreview(connection.id, expandedUri, template.name)}
+                      disabled={!expandedUri}
+                      className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded hover:bg-gray-200 dark:hover:bg-gray-500 disabled:opacity-50"
+                    >
+                      Preview
+                    </button>
+                    <button
+                      onClick={() => expandedUri && handleAttach(connection, expandedUri, template.name)}
+                      disabled={!expandedUri}
+                      className="px-2 py-1 text-xs bg-indigo-100 dark:bg-indigo-900/50 text-indigo-800 dark:text-indigo-200 rounded hover:bg-indigo-200 dark:hover:bg-indigo-800 disabled:opacity-50"
+                    >
+                      Attach
+                    </button>
+                    {renderSubscribeButton(connection, expandedUri)}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Subscriptions to URIs that aren't in the resource list, e.g. expanded templates */}
+            {connection.subscriptions
+              .filter(sub => !connection.resources.some(resource => resource.uri === sub.uri))
+              .map((subscription) => (
+                <div
+                  key={subscription.uri}
+                  className="flex items-center justify-between bg-white dark:bg-gray-700 rounded p-2 border border-orange-200 dark:border-orange-800"
+                >
+                  <p className="flex-1 min-w-0 text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {subscription.uri}
+                    {renderUpdateBadge(connection, subscription.uri)}
+                  </p>
+                  <div className="flex space-x-1 ml-2">
+                    <button
+                      onClick={() => loadPreview(connection.id, subscription.uri)}
+                      className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded hover:bg-gray-200 dark:hover:bg-gray-500"
+                    >
+                      Preview
+                    </button>
+                    {renderSubscribeButton(connection, subscription.uri)}
+                  </div>
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+
+      {preview && (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded p-2 border border-gray-200 dark:border-gray-600">
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-xs font-medium text-gray-900 dark:text-white truncate">
+              {preview.name || preview.uri}
+            </p>
+            <button
+              onClick={() => setPreview(null)}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            >
+              Close
+            </button>
+          </div>
+          {preview.isLoading && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Loading...</p>
+          )}
+          {preview.error && (
+            <p className="text-xs text-red-600 dark:text-red-400">{preview.error}</p>
+          )}
+          {(previewSubscription?.contents ?? preview.contents)?.map(renderPreviewContents)}
+        </div>
+      )}
+    </div>
+  );
+}
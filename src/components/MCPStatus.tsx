@@ -3,7 +3,7 @@
 import { useMCP } from '@/contexts/MCPContext';
 
 export function MCPStatus() {
-  const { connections, getAllTools, reconnectServer } = useMCP();
+  const { connections, getAllTools, reconnectServer, continueAuthorizationInTab } = useMCP();
   
   const connectedServers = connections.filter(conn => conn.status === 'connected');
   const allTools = getAllTools();
@@ -87,15 +87,72 @@ export function MCPStatus() {
                           {connection.error}
                         </p>
                       )}
+                      {connection.reauthRequired && (
+                        <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                          Re-authorization required. Sign in again to keep using this server.
+                        </p>
+                      )}
+                      {connection.nextReconnectAt && (
+                        <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+                          Reconnecting at {connection.nextReconnectAt.toLocaleTimeString()} (attempt {connection.connectionAttempts + 1})
+                        </p>
+                      )}
+                      {connection.transportDiagnostics && connection.transportDiagnostics.some(attempt => !attempt.succeeded) && (
+                        <details className="mt-2">
+                          <summary className="text-xs text-gray-600 dark:text-gray-400 cursor-pointer">
+                            Connection diagnostics
+                          </summary>
+                          <div className="mt-1 space-y-1">
+                            {connection.transportDiagnostics.map((attempt, index) => (
+                              <div key={index} className="text-xs bg-gray-50 dark:bg-gray-800 rounded px-2 py-1">
+                                <p className="font-mono text-gray-900 dark:text-white">
+                                  {attempt.succeeded ? '✓' : '✗'} {attempt.transport}
+                                  {attempt.resumedSession && ' (resume)'}
+                                  {attempt.httpStatus !== undefined && ` · HTTP ${attempt.httpStatus}`}
+                                  {` · ${attempt.durationMs}ms`}
+                                </p>
+                                {(attempt.likelyCors || attempt.missingExposeHeaders || attempt.authChallenge) && (
+                                  <div className="flex flex-wrap gap-1 mt-1">
+                                    {attempt.likelyCors && (
+                                      <span className="px-1.5 py-0.5 bg-orange-100 dark:bg-orange-900/50 text-orange-800 dark:text-orange-200 rounded">CORS</span>
+                                    )}
+                                    {attempt.missingExposeHeaders && (
+                                      <span className="px-1.5 py-0.5 bg-orange-100 dark:bg-orange-900/50 text-orange-800 dark:text-orange-200 rounded">Expose-Headers</span>
+                                    )}
+                                    {attempt.authChallenge && (
+                                      <span className="px-1.5 py-0.5 bg-purple-100 dark:bg-purple-900/50 text-purple-800 dark:text-purple-200 rounded">Auth required</span>
+                                    )}
+                                  </div>
+                                )}
+                                {attempt.hint && (
+                                  <p className="text-gray-700 dark:text-gray-300 mt-1">{attempt.hint}</p>
+                                )}
+                                {attempt.error && (
+                                  <p className="text-red-600 dark:text-red-400 mt-1 break-words">{attempt.error}</p>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      )}
                     </div>
                     
-                    {(connection.status === 'failed' || connection.status === 'disconnected') && (
+                    {connection.pendingAuthorizationUrl && (
+                      <button
+                        onClick={() => continueAuthorizationInTab(connection.id)}
+                        className="ml-2 px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 rounded hover:bg-blue-200 dark:hover:bg-blue-800"
+                        title="The sign-in popup was blocked. Continue sign-in by leaving this page; you will return here afterwards."
+                      >
+                        Sign in in this tab
+                      </button>
+                    )}
+                    {(connection.status === 'failed' || connection.status === 'disconnected' || connection.reauthRequired) && (
                       <button
                         onClick={() => reconnectServer(connection.id)}
                         className="ml-2 px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 rounded hover:bg-blue-200 dark:hover:bg-blue-800"
-                        title="Reconnect server"
+                        title={connection.reauthRequired ? 'Sign in to this server again' : 'Reconnect server'}
                       >
-                        Reconnect
+                        {connection.reauthRequired ? 'Sign in' : 'Reconnect'}
                       </button>
                     )}
                   </div>
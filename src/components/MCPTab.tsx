@@ -3,17 +3,65 @@
 import { useState } from 'react';
 import { useMCP } from '@/contexts/MCPContext';
 import { MCPMessageMonitor } from './MCPMessageMonitor';
+import { MCPResourcesPanel } from './MCPResourcesPanel';
+import { MCPLogViewer } from './MCPLogViewer';
+import { MCPAuthorizationsPanel } from './MCPAuthorizationsPanel';
+import { RootsEditor } from './RootsEditor';
+import type { ToolApprovalPolicy, MCPDiscoveryKind, MCPTransportPreference, MCPStaticCredentials } from '@/types/mcp';
+import type { Tool } from '@/types/inference';
+import { isReadOnlyTool, isDestructiveTool } from '@/utils/mcpUtils';
+
+const APPROVAL_POLICY_LABELS: Record<ToolApprovalPolicy, string> = {
+  allow: 'Always allow',
+  ask: 'Always ask',
+  deny: 'Always deny',
+};
+
+const DISCOVERY_KIND_LABELS: Record<MCPDiscoveryKind, string> = {
+  tools: 'tools',
+  resources: 'resources',
+  resourceTemplates: 'resource templates',
+  prompts: 'prompts',
+};
 
 export function MCPTab() {
-  const { connections, addMcpServer, removeMcpServer, reconnectServer, isLoading } = useMCP();
+  const {
+    connections,
+    addMcpServer,
+    removeMcpServer,
+    reconnectServer,
+    continueAuthorizationInTab,
+    setToolPolicy,
+    roots,
+    setRoots,
+    setConnectionRoots,
+    logs,
+    isLoading,
+  } = useMCP();
   const [showAddForm, setShowAddForm] = useState(false);
+  const [expandedPolicies, setExpandedPolicies] = useState<Set<string>>(new Set());
+  const [expandedRoots, setExpandedRoots] = useState<Set<string>>(new Set());
   const [newServerName, setNewServerName] = useState('');
   const [newServerUrl, setNewServerUrl] = useState('');
+  const [newServerTransport, setNewServerTransport] = useState<MCPTransportPreference>('auto');
+  const [newServerAuthType, setNewServerAuthType] = useState<'none' | 'bearer' | 'headers'>('none');
+  const [newBearerToken, setNewBearerToken] = useState('');
+  const [newHeadersText, setNewHeadersText] = useState('');
+  const [addFormError, setAddFormError] = useState<string | null>(null);
   
   // Collapsible section states
   const [showSummary, setShowSummary] = useState(true);
   const [showAddServers, setShowAddServers] = useState(true);
   const [showServerList, setShowServerList] = useState(true);
+  const [showResources, setShowResources] = useState(false);
+  const [showRoots, setShowRoots] = useState(false);
+  const [showLogs, setShowLogs] = useState(false);
+  const [showAuthorizations, setShowAuthorizations] = useState(false);
+
+  const unseenResourceUpdates = connections.reduce(
+    (count, conn) => count + conn.subscriptions.filter(sub => sub.hasUnseenUpdate).length,
+    0
+  );
 
   const handleAddExampleServer = async () => {
     try {
@@ -26,19 +74,54 @@ export function MCPTab() {
     }
   };
 
+  // One "Name: value" header per line
+  const parseHeaders = (text: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+
+      const separator = line.indexOf(':');
+      const name = separator > 0 ? line.slice(0, separator).trim() : '';
+      if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+        throw new Error(`Invalid header line: ${line.trim()}`);
+      }
+      headers[name] = line.slice(separator + 1).trim();
+    }
+    return headers;
+  };
+
   const handleAddCustomServer = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newServerName.trim() || !newServerUrl.trim()) return;
 
+    let credentials: MCPStaticCredentials | undefined;
+    try {
+      if (newServerAuthType === 'bearer') {
+        credentials = { bearerToken: newBearerToken.trim() };
+      } else if (newServerAuthType === 'headers') {
+        credentials = { headers: parseHeaders(newHeadersText) };
+      }
+    } catch (error) {
+      setAddFormError(error instanceof Error ? error.message : 'Invalid headers');
+      return;
+    }
+    setAddFormError(null);
+
     try {
       await addMcpServer({
         name: newServerName,
         url: newServerUrl,
-      });
+        ...(newServerTransport !== 'auto' && { transport: newServerTransport }),
+        ...(newServerAuthType !== 'none' && { authType: newServerAuthType }),
+      }, credentials);
       
       // Reset form
       setNewServerName('');
       setNewServerUrl('');
+      setNewServerTransport('auto');
+      setNewServerAuthType('none');
+      setNewBearerToken('');
+      setNewHeadersText('');
       setShowAddForm(false);
     } catch (error) {
       console.error('Failed to add custom server:', error);
@@ -71,6 +154,27 @@ export function MCPTab() {
     }
   };
 
+  const toggleExpanded = (setExpanded: typeof setExpandedPolicies, connectionId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(connectionId)) {
+        next.delete(connectionId);
+      } else {
+        next.add(connectionId);
+      }
+      return next;
+    });
+  };
+
+  const getToolHints = (tool: Tool) => {
+    const hints: string[] = [];
+    if (isReadOnlyTool(tool)) hints.push('read-only');
+    if (isDestructiveTool(tool)) hints.push('destructive');
+    if (tool.annotations?.idempotentHint) hints.push('idempotent');
+    if (tool.annotations?.openWorldHint) hints.push('open-world');
+    return hints;
+  };
+
   const connectedServers = connections.filter(conn => conn.status === 'connected');
   const allTools = connections.flatMap(conn => conn.tools);
 
@@ -171,6 +275,84 @@ export function MCPTab() {
                 required
               />
             </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Transport
+              </label>
+              <select
+                value={newServerTransport}
+                onChange={(e) => setNewServerTransport(e.target.value as MCPTransportPreference)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="auto">Auto (Streamable HTTP, then SSE)</option>
+                <option value="streamable-http">Streamable HTTP only</option>
+                <option value="sse">SSE only</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Authentication
+              </label>
+              <select
+                value={newServerAuthType}
+                onChange={(e) => {
+                  setNewServerAuthType(e.target.value as 'none' | 'bearer' | 'headers');
+                  setAddFormError(null);
+                }}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="none">None (OAuth if the server asks)</option>
+                <option value="bearer">Bearer token</option>
+                <option value="headers">Custom headers</option>
+              </select>
+            </div>
+
+            {newServerAuthType === 'bearer' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Token
+                </label>
+                <input
+                  type="password"
+                  value={newBearerToken}
+                  onChange={(e) => setNewBearerToken(e.target.value)}
+                  autoComplete="off"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  required
+                />
+              </div>
+            )}
+
+            {newServerAuthType === 'headers' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Headers (one per line)
+                </label>
+                <textarea
+                  value={newHeadersText}
+                  onChange={(e) => {
+                    setNewHeadersText(e.target.value);
+                    setAddFormError(null);
+                  }}
+                  placeholder="X-API-Key: your-key"
+                  rows={3}
+                  className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  required
+                />
+              </div>
+            )}
+
+            {newServerAuthType !== 'none' && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Credentials are stored in this browser separately from the server list.
+              </p>
+            )}
+
+            {addFormError && (
+              <p className="text-xs text-red-600 dark:text-red-400">{addFormError}</p>
+            )}
             <button
               type="submit"
               disabled={isLoading || !newServerName.trim() || !newServerUrl.trim()}
@@ -231,24 +413,53 @@ export function MCPTab() {
                     <p className={`text-xs mt-1 ${getStatusColor(connection.status)}`}>
                       {connection.status}
                     </p>
+                    {connection.discoveryProgress && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Loading {DISCOVERY_KIND_LABELS[connection.discoveryProgress.kind]}... {connection.discoveryProgress.itemsLoaded} so far ({connection.discoveryProgress.pagesLoaded} pages)
+                      </p>
+                    )}
+                    {connection.truncatedLists && connection.truncatedLists.length > 0 && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                        ⚠️ Too many pages, some {connection.truncatedLists.map(kind => DISCOVERY_KIND_LABELS[kind]).join(', ')} were not loaded
+                      </p>
+                    )}
                     {connection.error && (
                       <p className="text-xs text-red-600 dark:text-red-400 mt-1">
                         {connection.error}
                       </p>
                     )}
+                    {connection.reauthRequired && (
+                      <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                        Re-authorization required. Sign in again to keep using this server.
+                      </p>
+                    )}
+                    {connection.nextReconnectAt && (
+                      <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+                        Reconnecting at {connection.nextReconnectAt.toLocaleTimeString()} (attempt {connection.connectionAttempts + 1})
+                      </p>
+                    )}
                     <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
                       {connection.url}
                     </p>
                   </div>
                   
                   <div className="flex space-x-1 ml-2">
-                    {(connection.status === 'failed' || connection.status === 'disconnected') && (
+                    {connection.pendingAuthorizationUrl && (
+                      <button
+                        onClick={() => continueAuthorizationInTab(connection.id)}
+                        className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 rounded hover:bg-blue-200 dark:hover:bg-blue-800"
+                        title="The sign-in popup was blocked. Continue sign-in by leaving this page; you will return here afterwards."
+                      >
+                        Sign in in this tab
+                      </button>
+                    )}
+                    {(connection.status === 'failed' || connection.status === 'disconnected' || connection.reauthRequired) && (
                       <button
                         onClick={() => reconnectServer(connection.id)}
                         className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 rounded hover:bg-blue-200 dark:hover:bg-blue-800"
-                        title="Reconnect server"
+                        title={connection.reauthRequired ? 'Sign in to this server again' : 'Reconnect server'}
                       >
-                        Reconnect
+                        {connection.reauthRequired ? 'Sign in' : 'Reconnect'}
                       </button>
                     )}
                     <button
@@ -270,9 +481,15 @@ export function MCPTab() {
                       {connection.tools.slice(0, 3).map((tool, index) => (
                         <span
                           key={index}
-                          className="inline-block px-2 py-1 bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200 text-xs rounded"
+                          className={`inline-block px-2 py-1 text-xs rounded ${
+                            isDestructiveTool(tool)
+                              ? 'bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200'
+                              : 'bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-200'
+                          }`}
+                          title={getToolHints(tool).join(', ') || undefined}
                         >
-                          {tool.function.name.split('__').pop()}
+                          {isDestructiveTool(tool) && '⚠️ '}
+                          {tool.title || tool.function.name.split('__').pop()}
                         </span>
                       ))}
                       {connection.tools.length > 3 && (
@@ -283,6 +500,86 @@ export function MCPTab() {
                     </div>
                   </div>
                 )}
+
+                {/* Tool approval policies */}
+                <div className="mt-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Tool approval:
+                    </label>
+                    <div className="flex items-center space-x-1">
+                      <select
+                        value={connection.config.toolPolicies?.default || 'ask'}
+                        onChange={(e) => setToolPolicy(connection.id, undefined, e.target.value as ToolApprovalPolicy)}
+                        className="text-xs bg-gray-100 dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded px-1 py-0.5 text-gray-900 dark:text-gray-100"
+                      >
+                        {Object.entries(APPROVAL_POLICY_LABELS).map(([policy, label]) => (
+                          <option key={policy} value={policy}>{label}</option>
+                        ))}
+                      </select>
+                      {connection.tools.length > 0 && (
+                        <button
+                          onClick={() => toggleExpanded(setExpandedPolicies, connection.id)}
+                          className="px-1.5 py-0.5 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {expandedPolicies.has(connection.id) ? 'Hide tools' : 'Per tool'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {expandedPolicies.has(connection.id) && (
+                    <div className="mt-1 space-y-1">
+                      {connection.tools.map((tool) => {
+                        const toolName = tool.function.name.split('__').pop()!;
+                        return (
+                          <div key={tool.function.name} className="flex items-center justify-between">
+                            <span className="text-xs text-gray-700 dark:text-gray-300 truncate">
+                              {tool.title || toolName}
+                              {getToolHints(tool).length > 0 && (
+                                <span className="ml-1 text-gray-500 dark:text-gray-400">
+                                  ({getToolHints(tool).join(', ')})
+                                </span>
+                              )}
+                            </span>
+                            <select
+                              value={connection.config.toolPolicies?.tools?.[toolName] || ''}
+                              onChange={(e) => setToolPolicy(
+                                connection.id,
+                                toolName,
+                                (e.target.value || undefined) as ToolApprovalPolicy | undefined
+                              )}
+                              className="text-xs bg-gray-100 dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded px-1 py-0.5 text-gray-900 dark:text-gray-100"
+                            >
+                              <option value="">Server default</option>
+                              {Object.entries(APPROVAL_POLICY_LABELS).map(([policy, label]) => (
+                                <option key={policy} value={policy}>{label}</option>
+                              ))}
+                            </select>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                {/* Per-connection roots */}
+                <div className="mt-2">
+                  <button
+                    onClick={() => toggleExpanded(setExpandedRoots, connection.id)}
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {expandedRoots.has(connection.id) ? 'Hide roots' : `Server roots (${connection.config.roots?.length || 0})`}
+                  </button>
+                  {expandedRoots.has(connection.id) && (
+                    <div className="mt-1">
+                      <RootsEditor
+                        roots={connection.config.roots || []}
+                        onChange={(newRoots) => setConnectionRoots(connection.id, newRoots)}
+                        emptyMessage="Only the global roots are shared with this server."
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
             ))}
           </div>
@@ -291,6 +588,102 @@ export function MCPTab() {
         )}
       </div>
 
+      {/* Global Roots */}
+      <div className="flex-shrink-0">
+        <button
+          onClick={() => setShowRoots(!showRoots)}
+          className="w-full p-4 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors border-b border-gray-200 dark:border-gray-700"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              Roots ({roots.length})
+            </h3>
+            <span className="text-gray-500 dark:text-gray-400">
+              {showRoots ? '−' : '+'}
+            </span>
+          </div>
+        </button>
+        {showRoots && (
+          <div className="max-h-60 overflow-y-auto p-4">
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              Workspace roots shared with every connected server.
+            </p>
+            <RootsEditor roots={roots} onChange={setRoots} />
+          </div>
+        )}
+      </div>
+
+      {/* Resources */}
+      <div className="flex-shrink-0">
+        <button
+          onClick={() => setShowResources(!showResources)}
+          className="w-full p-4 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors border-b border-gray-200 dark:border-gray-700"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              Resources ({connections.reduce((count, conn) => count + conn.resources.length + conn.resourceTemplates.length, 0)})
+              {unseenResourceUpdates > 0 && (
+                <span className="ml-2 px-1.5 py-0.5 text-xs font-normal bg-orange-100 dark:bg-orange-900/50 text-orange-800 dark:text-orange-200 rounded">
+                  {unseenResourceUpdates} updated
+                </span>
+              )}
+            </h3>
+            <span className="text-gray-500 dark:text-gray-400">
+              {showResources ? '−' : '+'}
+            </span>
+          </div>
+        </button>
+        {showResources && (
+          <div className="max-h-80 overflow-y-auto p-4">
+            <MCPResourcesPanel />
+          </div>
+        )}
+      </div>
+
+      {/* Server Logs */}
+      <div className="flex-shrink-0">
+        <button
+          onClick={() => setShowLogs(!showLogs)}
+          className="w-full p-4 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors border-b border-gray-200 dark:border-gray-700"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              Server Logs ({logs.length})
+            </h3>
+            <span className="text-gray-500 dark:text-gray-400">
+              {showLogs ? '−' : '+'}
+            </span>
+          </div>
+        </button>
+        {showLogs && (
+          <div className="max-h-80 overflow-y-auto p-4">
+            <MCPLogViewer />
+          </div>
+        )}
+      </div>
+
+      {/* OAuth Authorizations */}
+      <div className="flex-shrink-0">
+        <button
+          onClick={() => setShowAuthorizations(!showAuthorizations)}
+          className="w-full p-4 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors border-b border-gray-200 dark:border-gray-700"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              Authorizations
+            </h3>
+            <span className="text-gray-500 dark:text-gray-400">
+              {showAuthorizations ? '−' : '+'}
+            </span>
+          </div>
+        </button>
+        {showAuthorizations && (
+          <div className="max-h-80 overflow-y-auto p-4">
+            <MCPAuthorizationsPanel />
+          </div>
+        )}
+      </div>
+
       {/* Message Monitor */}
       <MCPMessageMonitor />
     </div>
@@ -1,21 +1,76 @@
-// Message input component with send functionality
+// Message input component with send functionality and a "/" prompt picker
 
 import React, { useState, useRef, useEffect } from 'react';
+import { useMCP } from '@/contexts/MCPContext';
+import { CompletionInput } from './CompletionInput';
+import type { MCPPrompt } from '@/types/mcp';
 
 interface MessageInputProps {
   onSendMessage: (content: string) => void;
+  onSendPrompt?: (connectionId: string, promptName: string, args: Record<string, string>) => void;
   disabled?: boolean;
   placeholder?: string;
 }
 
+interface PromptOption {
+  connectionId: string;
+  serverName: string;
+  prompt: MCPPrompt;
+}
+
 export function MessageInput({ 
   onSendMessage, 
+  onSendPrompt,
   disabled = false, 
   placeholder = "Type your message..." 
 }: MessageInputProps) {
+  const { connections } = useMCP();
   const [message, setMessage] = useState('');
+  const [selectedPrompt, setSelectedPrompt] = useState<PromptOption | null>(null);
+  const [promptArgs, setPromptArgs] = useState<Record<string, string>>({});
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Typing "/" at the start of an empty message opens the prompt picker
+  const promptQuery = onSendPrompt && !selectedPrompt && /^\/\S*$/.test(message)
+    ? message.slice(1).toLowerCase()
+    : undefined;
+
+  const promptOptions: PromptOption[] = promptQuery === undefined ? [] : connections
+    .filter(conn => conn.status === 'connected')
+    .flatMap(conn => conn.prompts.map(prompt => ({ connectionId: conn.id, serverName: conn.name, prompt })))
+    .filter(option => `${option.serverName} ${option.prompt.name}`.toLowerCase().includes(promptQuery));
+
+  const missingRequiredArgs = selectedPrompt?.prompt.arguments
+    ?.some(arg => arg.required && !promptArgs[arg.name]?.trim()) ?? false;
+
+  const selectPrompt = (option: PromptOption) => {
+    setSelectedPrompt(option);
+    setPromptArgs({});
+    setMessage('');
+  };
+
+  // Arguments the user has filled in, other than the one being edited
+  const getOtherArgs = (argName: string) => Object.fromEntries(
+    Object.entries(promptArgs).filter(([name, value]) => name !== argName && value.trim() !== '')
+  );
+
+  const cancelPrompt = () => {
+    setSelectedPrompt(null);
+    setPromptArgs({});
+  };
+
+  const handleRunPrompt = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPrompt || !onSendPrompt || missingRequiredArgs || disabled) return;
+
+    // Leave out optional arguments the user didn't fill in
+    const args = Object.fromEntries(
+      Object.entries(promptArgs).filter(([, value]) => value.trim() !== '')
+    );
+    onSendPrompt(selectedPrompt.connectionId, selectedPrompt.prompt.name, args);
+    cancelPrompt();
+  };
+
   // Auto-resize textarea
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -36,6 +91,20 @@ export function MessageInput({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (promptQuery !== undefined) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMessage('');
+        return;
+      }
+      // Enter picks the first matching prompt
+      if (e.key === 'Enter' && !e.shiftKey && promptOptions.length > 0) {
+        e.preventDefault();
+        selectPrompt(promptOptions[0]);
+        return;
+      }
+    }
+
     // Send on Enter, new line on Shift+Enter
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -43,8 +112,95 @@ export function MessageInput({
     }
   };
 
+  if (selectedPrompt) {
+    return (
+      <form onSubmit={handleRunPrompt} className="p-4">
+        <div className="flex items-center justify-between mb-2">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+              /{selectedPrompt.prompt.name}
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                {selectedPrompt.serverName}
+              </span>
+            </p>
+            {selectedPrompt.prompt.description && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">{selectedPrompt.prompt.description}</p>
+            )}
+          </div>
+        </div>
+
+        {selectedPrompt.prompt.arguments && selectedPrompt.prompt.arguments.length > 0 && (
+          <div className="space-y-2 mb-3">
+            {selectedPrompt.prompt.arguments.map((arg) => (
+              <div key={arg.name}>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {arg.name}
+                  {arg.required && <span className="text-red-500 ml-0.5">*</span>}
+                  {arg.description && (
+                    <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{arg.description}</span>
+                  )}
+                </label>
+                <CompletionInput
+                  connectionId={selectedPrompt.connectionId}
+                  completionRef={{ type: 'ref/prompt', name: selectedPrompt.prompt.name }}
+                  argumentName={arg.name}
+                  value={promptArgs[arg.name] || ''}
+                  onChange={(value) => setPromptArgs(prev => ({ ...prev, [arg.name]: value }))}
+                  otherArguments={getOtherArgs(arg.name)}
+                  required={arg.required}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={cancelPrompt}
+            className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={disabled || missingRequiredArgs}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Run prompt
+          </button>
+        </div>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="p-4">
+      {promptQuery !== undefined && (
+        <div className="mb-2 max-h-48 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700">
+          {promptOptions.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+              No matching prompts from connected servers
+            </p>
+          ) : (
+            promptOptions.map((option) => (
+              <button
+                key={`${option.connectionId}:${option.prompt.name}`}
+                type="button"
+                onClick={() => selectPrompt(option)}
+                className="w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+              >
+                <span className="text-sm font-medium text-gray-900 dark:text-white">/{option.prompt.name}</span>
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{option.serverName}</span>
+                {option.prompt.description && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{option.prompt.description}</p>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
       <div className="flex space-x-3">
         <div className="flex-1 relative">
           <textarea
@@ -91,7 +247,7 @@ export function MessageInput({
       </div>
       
       <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-        Press Enter to send, Shift+Enter for new line
+        Press Enter to send, Shift+Enter for new line{onSendPrompt && ', / for server prompts'}
       </div>
     </form>
   );
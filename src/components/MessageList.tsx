@@ -1,13 +1,38 @@
 // Message list component to display conversation messages with tool calls
 
-import type { ConversationMessage } from '@/types/conversation';
+import type { ConversationMessage, PendingToolCall, ToolApprovalDecision } from '@/types/conversation';
+import { ToolApprovalPrompt } from './ToolApprovalPrompt';
+import { useMCP } from '@/contexts/MCPContext';
+import { isReadOnlyTool, isDestructiveTool } from '@/utils/mcpUtils';
 
 interface MessageListProps {
   messages: ConversationMessage[];
+  pendingToolCalls?: PendingToolCall[];
+  onResolveToolApproval?: (toolCallId: string, decision: ToolApprovalDecision) => void;
   isLoading?: boolean;
 }
 
-export function MessageList({ messages, isLoading }: MessageListProps) {
+export function MessageList({ messages, pendingToolCalls, onResolveToolApproval, isLoading }: MessageListProps) {
+  const { connections } = useMCP();
+  const toolsByName = new Map(connections.flatMap(conn => conn.tools).map(tool => [tool.function.name, tool]));
+
+  const getToolStatusBadge = (status: PendingToolCall['status']) => {
+    switch (status) {
+      case 'queued':
+        return { label: 'Queued', className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300' };
+      case 'awaiting_approval':
+        return { label: 'Awaiting approval', className: 'bg-amber-100 dark:bg-amber-900/50 text-amber-800 dark:text-amber-200' };
+      case 'running':
+        return { label: 'Running...', className: 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-200' };
+      case 'completed':
+        return { label: 'Done', className: 'bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-200' };
+      case 'error':
+        return { label: 'Failed', className: 'bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200' };
+      case 'denied':
+        return { label: 'Denied', className: 'bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200' };
+    }
+  };
+
   const renderContentBlock = (block: any, messageId: string, blockIndex: number) => {
     const key = `${messageId}-${blockIndex}`;
     
@@ -19,22 +44,66 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
           </div>
         );
         
-      case 'tool_use':
+      case 'tool_use': {
+        const pendingCall = pendingToolCalls?.find(call => call.id === block.id);
+        const statusBadge = pendingCall && getToolStatusBadge(pendingCall.status);
+        const tool = toolsByName.get(block.name);
         return (
           <div key={key} className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 my-2">
             <div className="flex items-center space-x-2 mb-2">
               <span className="text-blue-600 dark:text-blue-400 font-mono text-sm">🔧</span>
               <span className="font-medium text-blue-900 dark:text-blue-100">
-                Using tool: {block.name}
+                Using tool: {tool?.title || block.name}
               </span>
+              {tool && isDestructiveTool(tool) && (
+                <span className="px-1.5 py-0.5 text-xs rounded bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200">
+                  ⚠️ Destructive
+                </span>
+              )}
+              {tool && isReadOnlyTool(tool) && (
+                <span className="px-1.5 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  Read-only
+                </span>
+              )}
+              {statusBadge && (
+                <span className={`px-1.5 py-0.5 text-xs rounded ${statusBadge.className}`}>
+                  {statusBadge.label}
+                </span>
+              )}
             </div>
             <div className="bg-white dark:bg-gray-800 rounded border p-3">
               <pre className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
                 {JSON.stringify(block.input, null, 2)}
               </pre>
             </div>
+            {pendingCall?.status === 'running' && pendingCall.progress && (
+              <div className="mt-2">
+                {pendingCall.progress.total ? (
+                  <div className="h-1.5 bg-blue-100 dark:bg-blue-900/50 rounded overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${Math.min(100, (pendingCall.progress.progress / pendingCall.progress.total) * 100)}%` }}
+                    />
+                  </div>
+                ) : null}
+                <p className="text-xs text-blue-800 dark:text-blue-200 mt-1">
+                  {pendingCall.progress.message || 'Working...'}
+                  <span className="ml-1 text-blue-600 dark:text-blue-400">
+                    ({pendingCall.progress.progress}{pendingCall.progress.total ? ` / ${pendingCall.progress.total}` : ''})
+                  </span>
+                </p>
+              </div>
+            )}
+            {pendingCall?.status === 'awaiting_approval' && onResolveToolApproval && (
+              <ToolApprovalPrompt
+                toolName={block.name}
+                input={block.input}
+                onResolve={(decision) => onResolveToolApproval(block.id, decision)}
+              />
+            )}
           </div>
         );
+      }
         
       case 'tool_result':
         const isError = block.is_error;
@@ -79,6 +148,24 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
           </div>
         );
         
+      case 'resource':
+        return (
+          <div key={key} className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-lg p-3 my-2">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm">📎</span>
+              <span className="font-medium text-sm text-indigo-900 dark:text-indigo-100 truncate">
+                {block.name || block.uri}
+              </span>
+              <span className="text-xs text-indigo-700 dark:text-indigo-300">
+                {block.serverName}{block.mimeType && ` · ${block.mimeType}`}
+              </span>
+            </div>
+            {block.name && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">{block.uri}</p>
+            )}
+          </div>
+        );
+        
       default:
         return (
           <div key={key} className="bg-gray-100 dark:bg-gray-800 rounded p-2 text-sm">
@@ -113,6 +200,8 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
         return 'Assistant';
       case 'tool':
         return 'Tool';
+      case 'system':
+        return 'System';
       default:
         return role;
     }
@@ -142,9 +231,11 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
                 ? 'bg-blue-500' 
                 : message.role === 'assistant'
                 ? 'bg-green-500'
+                : message.role === 'system'
+                ? 'bg-gray-500'
                 : 'bg-purple-500'
             }`}>
-              {message.role === 'user' ? 'U' : message.role === 'assistant' ? 'A' : 'T'}
+              {message.role === 'user' ? 'U' : message.role === 'assistant' ? 'A' : message.role === 'system' ? 'S' : 'T'}
             </div>
           </div>
 
@@ -1,12 +1,15 @@
-// OAuth callback handler for popup-based OAuth flows
+// OAuth callback handler for popup-based and same-tab redirect OAuth flows
 
 import { useEffect } from 'react';
+import { isOAuthRedirectPending, saveOAuthRedirectResult } from '@/utils/oauthRedirect';
 
 interface OAuthCallbackProps {
   type: 'inference' | 'mcp';
 }
 
 export function OAuthCallback({ type }: OAuthCallbackProps) {
+  const isPopup = !!window.opener;
+
   useEffect(() => {
     // Extract OAuth parameters from URL
     const urlParams = new URLSearchParams(window.location.search);
@@ -47,6 +50,15 @@ export function OAuthCallback({ type }: OAuthCallbackProps) {
       setTimeout(() => {
         window.close();
       }, 100);
+    } else if (isOAuthRedirectPending()) {
+      // Same-tab flow: leave the result for the app, which finishes the exchange once it has loaded
+      saveOAuthRedirectResult({
+        type,
+        code: code || undefined,
+        state: state || undefined,
+        error: error ? errorDescription || error : undefined,
+      });
+      window.location.replace(`${window.location.origin}${window.location.pathname}`);
     } else {
       // Fallback if not in a popup - redirect to main app
       window.location.href = '/';
@@ -62,7 +74,7 @@ export function OAuthCallback({ type }: OAuthCallbackProps) {
             Processing OAuth callback...
           </h2>
           <p className="text-gray-600 dark:text-gray-400">
-            This window will close automatically.
+            {isPopup ? 'This window will close automatically.' : 'Returning to the app...'}
           </p>
         </div>
       </div>
@@ -0,0 +1,98 @@
+// Editable list of MCP roots (file:// URIs with optional names)
+
+import { useState, type FormEvent } from 'react';
+import type { MCPRoot } from '@/types/mcp';
+
+interface RootsEditorProps {
+  roots: MCPRoot[];
+  onChange: (roots: MCPRoot[]) => void;
+  emptyMessage?: string;
+}
+
+export function RootsEditor({ roots, onChange, emptyMessage = 'No roots configured.' }: RootsEditorProps) {
+  const [uri, setUri] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmedUri = uri.trim();
+
+    if (!trimmedUri.startsWith('file://')) {
+      setError('Roots must be file:// URIs');
+      return;
+    }
+    if (roots.some(root => root.uri === trimmedUri)) {
+      setError('This root is already listed');
+      return;
+    }
+
+    onChange([...roots, { uri: trimmedUri, ...(name.trim() && { name: name.trim() }) }]);
+    setUri('');
+    setName('');
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {roots.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{emptyMessage}</p>
+      ) : (
+        <div className="space-y-1">
+          {roots.map((root) => (
+            <div
+              key={root.uri}
+              className="flex items-center justify-between bg-white dark:bg-gray-700 rounded px-2 py-1 border border-gray-200 dark:border-gray-600"
+            >
+              <div className="min-w-0">
+                {root.name && (
+                  <p className="text-xs font-medium text-gray-900 dark:text-white truncate">{root.name}</p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{root.uri}</p>
+              </div>
+              <button
+                onClick={() => onChange(roots.filter(other => other.uri !== root.uri))}
+                className="ml-2 px-2 py-0.5 text-xs bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200 rounded hover:bg-red-200 dark:hover:bg-red-800"
+                title="Remove root"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-1">
+        <input
+          type="text"
+          placeholder="file:///path/to/workspace"
+          value={uri}
+          onChange={(e) => {
+            setUri(e.target.value);
+            setError(null);
+          }}
+          className="w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+        <div className="flex space-x-1">
+          <input
+            type="text"
+            placeholder="Name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <button
+            type="submit"
+            disabled={!uri.trim()}
+            className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// Modal asking the user to approve sampling requests sent by MCP servers
+
+import { useMCP } from '@/contexts/MCPContext';
+
+export function SamplingRequestDialog() {
+  const { samplingRequests, resolveSamplingRequest } = useMCP();
+
+  // Requests are shown one at a time, oldest first
+  const pending = samplingRequests[0];
+  if (!pending) {
+    return null;
+  }
+
+  const { request } = pending;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-lg shadow-xl flex flex-col max-h-[80vh]">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Sampling request
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+            <span className="font-medium">{pending.serverName}</span> wants to send a prompt to your model.
+          </p>
+          {samplingRequests.length > 1 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {samplingRequests.length - 1} more request{samplingRequests.length > 2 ? 's' : ''} waiting
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-3">
+          <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+            <p>Model: <span className="font-mono">{pending.modelId || 'Selected model'}</span></p>
+            <p>Max tokens: {request.maxTokens}</p>
+            {request.modelPreferences?.hints && request.modelPreferences.hints.length > 0 && (
+              <p>Model hints: {request.modelPreferences.hints.map(hint => hint.name).filter(Boolean).join(', ')}</p>
+            )}
+          </div>
+
+          {request.systemPrompt && (
+            <div>
+              <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">System prompt</p>
+              <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300 rounded border border-gray-200 dark:border-gray-700 p-2 whitespace-pre-wrap">
+                {request.systemPrompt}
+              </pre>
+            </div>
+          )}
+
+          <div>
+            <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Messages</p>
+            <div className="space-y-2">
+              {request.messages.map((message, index) => (
+                <div key={index} className="bg-gray-50 dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700 p-2">
+                  <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{message.role}</p>
+                  <pre className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {(Array.isArray(message.content) ? message.content : [message.content])
+                      .map(content => content.type === 'text' ? content.text : `[${content.type}]`)
+                      .join('\n')}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+          <button
+            onClick={() => resolveSamplingRequest(pending.id, false)}
+            className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Reject
+          </button>
+          <button
+            onClick={() => resolveSamplingRequest(pending.id, true)}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Approve
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
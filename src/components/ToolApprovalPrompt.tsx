@@ -0,0 +1,103 @@
+// Inline prompt asking the user to approve, deny or edit a pending tool call
+
+import { useState } from 'react';
+import { useMCP } from '@/contexts/MCPContext';
+import type { ToolApprovalDecision } from '@/types/conversation';
+import { normalizeServerName } from '@/utils/mcpUtils';
+
+interface ToolApprovalPromptProps {
+  toolName: string;
+  input: Record<string, any>;
+  onResolve: (decision: ToolApprovalDecision) => void;
+}
+
+export function ToolApprovalPrompt({ toolName, input, onResolve }: ToolApprovalPromptProps) {
+  const { connections, setToolPolicy } = useMCP();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedInput, setEditedInput] = useState(() => JSON.stringify(input, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const [normalizedServerName] = toolName.split('__');
+  const connection = toolName.includes('__')
+    ? connections.find(conn => normalizeServerName(conn.name) === normalizedServerName)
+    : undefined;
+
+  const handleApprove = () => {
+    if (!isEditing) {
+      onResolve({ action: 'approve' });
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(editedInput);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        setParseError('Arguments must be a JSON object');
+        return;
+      }
+      onResolve({ action: 'approve', input: parsed });
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  const handleAlwaysAllow = () => {
+    if (connection) {
+      setToolPolicy(connection.id, toolName, 'allow');
+    }
+    handleApprove();
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded">
+      <p className="text-sm text-amber-900 dark:text-amber-100 mb-2">
+        This tool call is waiting for your approval.
+      </p>
+
+      {isEditing && (
+        <div className="mb-2">
+          <textarea
+            value={editedInput}
+            onChange={(e) => {
+              setEditedInput(e.target.value);
+              setParseError(null);
+            }}
+            rows={Math.min(12, editedInput.split('\n').length + 1)}
+            className="w-full px-2 py-1 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          />
+          {parseError && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">{parseError}</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleApprove}
+          className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+        >
+          {isEditing ? 'Approve with edits' : 'Approve'}
+        </button>
+        {connection && !isEditing && (
+          <button
+            onClick={handleAlwaysAllow}
+            className="px-3 py-1 text-sm bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-200 rounded hover:bg-green-200 dark:hover:bg-green-900 transition-colors"
+          >
+            Always allow
+          </button>
+        )}
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          {isEditing ? 'Cancel edit' : 'Edit arguments'}
+        </button>
+        <button
+          onClick={() => onResolve({ action: 'deny' })}
+          className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+        >
+          Deny
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -6,13 +6,45 @@ import { v4 as uuidv4 } from 'uuid';
 import type {
   Conversation,
   ConversationMessage,
+  ConversationContentBlock,
   ConversationContextValue,
   AgentLoopState,
+  ResourceBlock,
 } from '@/types/conversation';
+import type { MCPPromptContent, MCPResourceUpdateCallback } from '@/types/mcp';
 import { useAgentLoop } from '@/hooks/useAgentLoop';
+import { useMCP } from '@/contexts/MCPContext';
 
 const ConversationContext = createContext<ConversationContextValue | null>(null);
 
+// Convert one prompts/get content item into a conversation block. Images and audio
+// are kept as resource blocks so they flow through the attachment path.
+function fromPromptContent(
+  content: MCPPromptContent,
+  serverName: string,
+  promptName: string,
+  index: number
+): ConversationContentBlock {
+  switch (content.type) {
+    case 'text':
+      return { type: 'text', text: content.text };
+    case 'resource':
+      return { type: 'resource', serverName, ...content.resource };
+    default:
+      return {
+        type: 'resource',
+        uri: `prompt://${promptName}/${index}`,
+        serverName,
+        name: `${promptName} ${content.type}`,
+        mimeType: content.mimeType,
+        blob: content.data,
+      };
+  }
+}
+
+// Updated resources are stored with the note, so skip contents too large for localStorage
+const MAX_UPDATE_NOTE_SIZE = 1_000_000;
+
 interface ConversationProviderProps {
   children: ReactNode;
 }
@@ -21,9 +53,17 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<string>();
   const [agentLoopStates, setAgentLoopStates] = useState<Map<string, AgentLoopState>>(new Map());
+  const [pendingAttachments, setPendingAttachments] = useState<ResourceBlock[]>([]);
   
   const hasLoadedPersisted = useRef(false);
-  const { executeAgentLoop, stopLoop, getLoopState } = useAgentLoop();
+  const { executeAgentLoop, stopLoop, getLoopState, resolveToolApproval } = useAgentLoop();
+  const {
+    getPrompt,
+    getConnectionById,
+    addResourceUpdateCallback,
+    removeResourceUpdateCallback,
+    resourceUpdateNotes,
+  } = useMCP();
 
   // Load persisted conversations from localStorage on mount
   useEffect(() => {
@@ -37,6 +77,7 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
         // Convert date strings back to Date objects
         const restored = persistedConversations.map(conv => ({
           ...conv,
+          pendingToolCalls: undefined, // Tool calls don't survive a reload
           createdAt: new Date(conv.createdAt),
           updatedAt: new Date(conv.updatedAt),
           messages: conv.messages.map(msg => ({
@@ -46,8 +87,11 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
         }));
         setConversations(restored);
         
-        // Set active conversation to the most recent one
-        if (restored.length > 0) {
+        // Reopen the conversation this tab had open (e.g. before an OAuth redirect), else the most recent one
+        const tabActiveId = sessionStorage.getItem('active_conversation_id');
+        if (restored.some(conv => conv.id === tabActiveId)) {
+          setActiveConversationId(tabActiveId!);
+        } else if (restored.length > 0) {
           const mostRecent = restored.reduce((latest, conv) => 
             conv.updatedAt > latest.updatedAt ? conv : latest
           );
@@ -59,6 +103,13 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     }
   }, []);
 
+  // Remember the active conversation per tab
+  useEffect(() => {
+    if (activeConversationId) {
+      sessionStorage.setItem('active_conversation_id', activeConversationId);
+    }
+  }, [activeConversationId]);
+
   // Persist conversations to localStorage when they change
   useEffect(() => {
     if (hasLoadedPersisted.current && conversations.length > 0) {
@@ -70,6 +121,50 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     }
   }, [conversations]);
 
+  // Note changes to resources attached in the active conversation, so the model sees the new contents
+  const activeConversationIdRef = useRef(activeConversationId);
+  activeConversationIdRef.current = activeConversationId;
+
+  useEffect(() => {
+    if (!resourceUpdateNotes) return;
+
+    const handleResourceUpdate: MCPResourceUpdateCallback = (connection, subscription) => {
+      setConversations(prev => prev.map(conv => {
+        // Running agent loops replace the conversation wholesale, which would drop the note
+        if (conv.id !== activeConversationIdRef.current || conv.status === 'thinking' || conv.status === 'calling_tools') {
+          return conv;
+        }
+
+        const isAttached = conv.messages.some(msg => msg.content.some(block =>
+          block.type === 'resource' && block.uri === subscription.uri && block.serverName === connection.name
+        ));
+        if (!isAttached) {
+          return conv;
+        }
+
+        const updatedContents: ResourceBlock[] = (subscription.contents || [])
+          .filter(item => (item.text ?? item.blob ?? '').length <= MAX_UPDATE_NOTE_SIZE)
+          .map(item => ({ type: 'resource', serverName: connection.name, ...item }));
+
+        // A user turn, since chat APIs reject image content in system messages
+        const note: ConversationMessage = {
+          id: uuidv4(),
+          role: 'user',
+          content: [
+            { type: 'text', text: `The attached resource ${subscription.uri} from ${connection.name} was updated.` },
+            ...updatedContents,
+          ],
+          timestamp: new Date(),
+        };
+
+        return { ...conv, messages: [...conv.messages, note], updatedAt: new Date() };
+      }));
+    };
+
+    const callbackId = addResourceUpdateCallback(handleResourceUpdate);
+    return () => removeResourceUpdateCallback(callbackId);
+  }, [resourceUpdateNotes, addResourceUpdateCallback, removeResourceUpdateCallback]);
+
   // Helper: Generate conversation title from first user message
   const generateConversationTitle = useCallback((firstMessage: string): string => {
     // Take first 50 characters and clean up
@@ -142,11 +237,11 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     return conversations.find(conv => conv.id === conversationId);
   }, [conversations]);
 
-  const addUserMessage = useCallback((conversationId: string, content: string) => {
+  const addUserMessage = useCallback((conversationId: string, content: string, attachments: ResourceBlock[] = []) => {
     const userMessage: ConversationMessage = {
       id: uuidv4(),
       role: 'user',
-      content: [{ type: 'text', text: content }],
+      content: [{ type: 'text', text: content }, ...attachments],
       timestamp: new Date(),
     };
 
@@ -180,9 +275,22 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     );
   }, []);
 
-  const sendMessage = useCallback(async (conversationId: string, content: string): Promise<void> => {
+  const attachResource = useCallback((attachment: ResourceBlock) => {
+    // Re-attaching the same URI replaces the earlier snapshot
+    setPendingAttachments(prev => [...prev.filter(a => a.uri !== attachment.uri), attachment]);
+  }, []);
+
+  const removeAttachment = useCallback((uri: string) => {
+    setPendingAttachments(prev => prev.filter(a => a.uri !== uri));
+  }, []);
+
+  const clearAttachments = useCallback(() => {
+    setPendingAttachments([]);
+  }, []);
+
+  const sendMessage = useCallback(async (conversationId: string, content: string, attachments: ResourceBlock[] = []): Promise<void> => {
     // Add user message first
-    addUserMessage(conversationId, content);
+    addUserMessage(conversationId, content, attachments);
     
     // Get the updated conversation
     const conversation = conversations.find(conv => conv.id === conversationId);
@@ -194,7 +302,7 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     const userMessage: ConversationMessage = {
       id: uuidv4(),
       role: 'user',
-      content: [{ type: 'text', text: content }],
+      content: [{ type: 'text', text: content }, ...attachments],
       timestamp: new Date(),
     };
 
@@ -221,6 +329,65 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     }
   }, [conversations, addUserMessage, executeAgentLoop, updateConversation]);
 
+  const sendPrompt = useCallback(async (
+    conversationId: string,
+    connectionId: string,
+    promptName: string,
+    args: Record<string, string>
+  ): Promise<void> => {
+    const conversation = conversations.find(conv => conv.id === conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const connection = getConnectionById(connectionId);
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    const result = await getPrompt(connectionId, promptName, args);
+    if (result.messages.length === 0) {
+      throw new Error(`Prompt ${promptName} returned no messages`);
+    }
+
+    const promptMessages: ConversationMessage[] = result.messages.map((message, index) => ({
+      id: uuidv4(),
+      role: message.role,
+      content: [fromPromptContent(message.content, connection.name, promptName, index)],
+      timestamp: new Date(),
+    }));
+
+    // Title new conversations after the first text the prompt produced
+    const firstText = promptMessages
+      .flatMap(msg => msg.content)
+      .find(block => block.type === 'text');
+
+    const updatedConversation: Conversation = {
+      ...conversation,
+      title: conversation.messages.length === 0
+        ? generateConversationTitle(firstText?.type === 'text' ? firstText.text : promptName)
+        : conversation.title,
+      messages: [...conversation.messages, ...promptMessages],
+      updatedAt: new Date(),
+      status: 'thinking',
+    };
+    updateConversation(updatedConversation);
+
+    // Start agent loop
+    try {
+      await executeAgentLoop(updatedConversation, updateConversation);
+    } catch (error) {
+      const errorConversation: Conversation = {
+        ...updatedConversation,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Agent loop failed',
+        updatedAt: new Date(),
+      };
+      updateConversation(errorConversation);
+      throw error;
+    }
+  }, [conversations, getConnectionById, getPrompt, generateConversationTitle, executeAgentLoop, updateConversation]);
+
   const continueConversation = useCallback(async (conversationId: string): Promise<void> => {
     const conversation = conversations.find(conv => conv.id === conversationId);
     if (!conversation) {
@@ -268,10 +435,16 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     updateConversationTitle,
     getConversation,
     addUserMessage,
+    pendingAttachments,
+    attachResource,
+    removeAttachment,
+    clearAttachments,
     sendMessage,
+    sendPrompt,
     continueConversation,
     stopAgentLoop,
     getAgentLoopState,
+    resolveToolApproval,
   };
 
   return (
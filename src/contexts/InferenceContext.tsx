@@ -5,6 +5,8 @@ import type {
   InferenceProvider,
   InferenceRequest,
   InferenceResponse,
+  InferenceStreamCallback,
+  InferenceStreamChunk,
   Model,
   InferenceMessage,
   InferenceMessageCallback,
@@ -12,6 +14,12 @@ import type {
 import { v4 as uuidv4 } from 'uuid';
 import { OpenRouterApiProvider } from '@/providers/openrouter/api-provider';
 import { OpenRouterOAuthProvider } from '@/providers/openrouter/oauth-provider';
+import { takeOAuthRedirectResult } from '@/utils/oauthRedirect';
+import { AnthropicApiProvider } from '@/providers/anthropic/api-provider';
+import { OpenAICompatibleProvider } from '@/providers/openai-compatible/provider';
+
+// Minimum interval between monitor updates while a response is streaming
+const STREAM_MONITOR_INTERVAL_MS = 50;
 
 interface InferenceContextValue {
   // Current provider state
@@ -26,6 +34,7 @@ interface InferenceContextValue {
 
   // Inference actions
   generateResponse: (request: InferenceRequest) => Promise<InferenceResponse>;
+  generateStreamingResponse: (request: InferenceRequest, onChunk: InferenceStreamCallback, signal?: AbortSignal) => Promise<InferenceResponse>;
   selectModel: (modelId: string) => void;
   loadModels: () => Promise<Model[]>;
 
@@ -73,6 +82,31 @@ export function InferenceContextProvider({ children }: InferenceProviderProps) {
     });
   }, []);
 
+  // Replace a stored message with the same ID, or append it if it isn't stored yet.
+  // Used for stream chunks so a single response doesn't flood the message buffer.
+  const upsertMessage = useCallback((message: InferenceMessage) => {
+    setMessages(prev => {
+      const index = prev.findIndex(m => m.id === message.id);
+      if (index === -1) {
+        return [...prev, message].slice(-maxMessages);
+      }
+      const newMessages = [...prev];
+      newMessages[index] = message;
+      return newMessages;
+    });
+  }, []);
+
+  // Broadcast a message to all registered callbacks
+  const broadcastMessage = useCallback((message: InferenceMessage) => {
+    messageCallbacks.forEach(callback => {
+      try {
+        callback(message);
+      } catch (error) {
+        console.error('Error in inference message callback:', error);
+      }
+    });
+  }, [messageCallbacks]);
+
   const setProvider = useCallback((newProvider: InferenceProvider) => {
     setProviderState(newProvider);
     setSelectedModelId(undefined);
@@ -136,6 +170,20 @@ export function InferenceContextProvider({ children }: InferenceProviderProps) {
   // Auto-restore provider with stored credentials on mount
   useEffect(() => {
     const tryRestoreProvider = async () => {
+      // Finish an OpenRouter sign-in that returned through a same-tab redirect
+      const redirectResult = takeOAuthRedirectResult('inference');
+      if (redirectResult) {
+        const redirectProvider = new OpenRouterOAuthProvider();
+        try {
+          await redirectProvider.completeRedirect(redirectResult);
+          await restoreProviderWithModels(redirectProvider);
+          return;
+        } catch (error) {
+          console.error('Failed to complete OpenRouter sign-in:', error);
+          setError(error instanceof Error ? error.message : 'OpenRouter sign-in failed');
+        }
+      }
+
       // Try API provider first
       const apiProvider = new OpenRouterApiProvider();
       if (apiProvider.isAuthenticated) {
@@ -149,6 +197,20 @@ export function InferenceContextProvider({ children }: InferenceProviderProps) {
         await restoreProviderWithModels(oauthProvider);
         return;
       }
+
+      // Try Anthropic provider
+      const anthropicProvider = new AnthropicApiProvider();
+      if (anthropicProvider.isAuthenticated) {
+        await restoreProviderWithModels(anthropicProvider);
+        return;
+      }
+
+      // Try OpenAI-compatible provider
+      const openAICompatibleProvider = new OpenAICompatibleProvider();
+      if (openAICompatibleProvider.isAuthenticated) {
+        await restoreProviderWithModels(openAICompatibleProvider);
+        return;
+      }
     };
 
     tryRestoreProvider().catch(console.error);
@@ -247,6 +309,110 @@ export function InferenceContextProvider({ children }: InferenceProviderProps) {
     }
   }, [provider, messageCallbacks, addMessage]);
 
+  const generateStreamingResponse = useCallback(async (
+    request: InferenceRequest,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> => {
+    if (!provider) {
+      throw new Error('No inference provider configured');
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    const requestMessage: InferenceMessage = {
+      id: `${requestId}-request`,
+      timestamp: new Date(),
+      type: 'request',
+      providerId: provider.id,
+      providerName: provider.name,
+      model: request.model,
+      request,
+    };
+    addMessage(requestMessage);
+    broadcastMessage(requestMessage);
+
+    // All chunks for this request are collected into a single monitor entry, which is
+    // refreshed at most every STREAM_MONITOR_INTERVAL_MS so consumers don't re-render per token
+    const streamChunks: InferenceStreamChunk[] = [];
+    let lastMonitorUpdate = 0;
+
+    const publishStreamChunks = (force: boolean) => {
+      const now = Date.now();
+      if (streamChunks.length === 0 || (!force && now - lastMonitorUpdate < STREAM_MONITOR_INTERVAL_MS)) {
+        return;
+      }
+      lastMonitorUpdate = now;
+
+      const chunkMessage: InferenceMessage = {
+        id: `${requestId}-stream`,
+        timestamp: new Date(),
+        type: 'stream_chunk',
+        providerId: provider.id,
+        providerName: provider.name,
+        model: request.model,
+        streamChunk: streamChunks[streamChunks.length - 1],
+        streamChunks: [...streamChunks],
+        duration: now - startTime,
+      };
+      upsertMessage(chunkMessage);
+      broadcastMessage(chunkMessage);
+    };
+
+    try {
+      const response = await provider.generateStreamingResponse(request, (chunk) => {
+        streamChunks.push(chunk);
+        publishStreamChunks(false);
+        onChunk(chunk);
+      }, signal);
+      publishStreamChunks(true);
+
+      const responseMessage: InferenceMessage = {
+        id: `${requestId}-response`,
+        timestamp: new Date(),
+        type: 'response',
+        providerId: provider.id,
+        providerName: provider.name,
+        model: request.model,
+        response,
+        duration: Date.now() - startTime,
+      };
+      addMessage(responseMessage);
+      broadcastMessage(responseMessage);
+
+      return response;
+    } catch (err) {
+      publishStreamChunks(true);
+
+      // Requests cancelled by the caller aren't failures to report
+      if (!signal?.aborted) {
+        const errorMessage = err instanceof Error ? err.message : 'Inference request failed';
+        setError(errorMessage);
+      }
+
+      const errorMessageObj: InferenceMessage = {
+        id: `${requestId}-error`,
+        timestamp: new Date(),
+        type: 'error',
+        providerId: provider.id,
+        providerName: provider.name,
+        model: request.model,
+        error: err,
+        duration: Date.now() - startTime,
+      };
+      addMessage(errorMessageObj);
+      broadcastMessage(errorMessageObj);
+
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [provider, addMessage, upsertMessage, broadcastMessage]);
+
   const selectModel = useCallback((modelId: string) => {
     if (!provider) {
       throw new Error('No inference provider configured');
@@ -334,6 +500,7 @@ export function InferenceContextProvider({ children }: InferenceProviderProps) {
     clearProvider,
     refreshAuthState,
     generateResponse,
+    generateStreamingResponse,
     selectModel,
     loadModels,
     models: provider?.models || [],
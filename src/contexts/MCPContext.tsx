@@ -2,21 +2,76 @@
 
 import { createContext, useContext, useState, useCallback, useEffect, ReactNode, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
+import { takeOAuthRedirectResult } from '@/utils/oauthRedirect';
 
 import type {
   MCPConnection,
   MCPServerConfig,
+  MCPStaticCredentials,
+  MCPAuthorizationInfo,
   MCPResource,
+  MCPResourceContents,
+  MCPResourceUpdateCallback,
+  MCPToolCallOptions,
+  MCPPromptResult,
+  MCPCompletionRequest,
+  MCPSamplingRequest,
+  MCPSamplingHandler,
+  PendingSamplingRequest,
+  MCPElicitationHandler,
+  MCPElicitationResult,
+  PendingElicitationRequest,
+  MCPRoot,
   MCPContextValue,
   MCPMessageCallback,
   MCPMonitorMessage,
+  MCPLogCallback,
+  MCPLogEntry,
+  MCPLogLevel,
+  ToolApprovalPolicy,
+  ToolApprovalPolicies,
 } from '@/types/mcp';
-import type { Tool } from '@/types/inference';
+import type { Tool, ChatMessage, ContentBlock } from '@/types/inference';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { MCPConnectionManager } from '@/mcp/connection';
 import { availableServers } from '@/mcp/servers';
+import { useInference } from '@/contexts/InferenceContext';
+import { unprefixToolName, isReadOnlyTool, selectSamplingModel } from '@/utils/mcpUtils';
 
 const MCPContext = createContext<MCPContextValue | null>(null);
 
+// Local servers are recreated on every load rather than persisted, so their tool
+// policies are stored separately, keyed by server name
+const LOCAL_TOOL_POLICIES_KEY = 'mcp_local_tool_policies';
+
+function loadLocalToolPolicies(): Record<string, ToolApprovalPolicies> {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_TOOL_POLICIES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// Convert a sampling message from a server into the inference format
+function fromSamplingMessage(message: MCPSamplingRequest['messages'][number]): ChatMessage {
+  const contents = Array.isArray(message.content) ? message.content : [message.content];
+  const blocks: ContentBlock[] = contents.map(content => {
+    switch (content.type) {
+      case 'text':
+        return { type: 'text', text: content.text };
+      case 'image':
+        return { type: 'image', imageUrl: `data:${content.mimeType};base64,${content.data}` };
+      default:
+        return { type: 'text', text: `[${content.type} content is not supported]` };
+    }
+  });
+
+  return {
+    role: message.role,
+    content: blocks.every(block => block.type === 'text') ? blocks.map(block => block.text).join('') : blocks,
+  };
+}
+
 interface MCPProviderProps {
   children: ReactNode;
 }
@@ -28,6 +83,37 @@ export function MCPProvider({ children }: MCPProviderProps) {
   const [error, setError] = useState<string | null>(null);
   const hasLoadedPersisted = useRef(false);
   const connectionsRef = useRef<MCPConnection[]>([]);
+  const {
+    generateResponse,
+    models: inferenceModels,
+    selectedModel,
+    isAuthenticated: isInferenceAuthenticated,
+  } = useInference();
+  
+  // Sampling requests awaiting user approval
+  const [samplingRequests, setSamplingRequests] = useState<PendingSamplingRequest[]>([]);
+  const samplingResolvers = useRef<Map<string, (approved: boolean) => void>>(new Map());
+  const samplingHandlerRef = useRef<MCPSamplingHandler>();
+  
+  // Global roots shared with every server
+  const [roots, setRootsState] = useState<MCPRoot[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('mcp_roots') || '[]');
+    } catch {
+      return [];
+    }
+  });
+  const rootsRef = useRef<MCPRoot[]>(roots);
+  
+  // Elicitation forms awaiting user input
+  const [elicitationRequests, setElicitationRequests] = useState<PendingElicitationRequest[]>([]);
+  const elicitationResolvers = useRef<Map<string, (result: MCPElicitationResult) => void>>(new Map());
+  
+  // Listeners for subscribed resources that changed
+  const resourceUpdateCallbacksRef = useRef<Map<string, MCPResourceUpdateCallback>>(new Map());
+  const [resourceUpdateNotes, setResourceUpdateNotesState] = useState(
+    () => localStorage.getItem('mcp_resource_update_notes') === 'true'
+  );
   
   // Message callback management
   const [messageCallbacks, setMessageCallbacks] = useState<Map<string, MCPMessageCallback>>(new Map());
@@ -37,6 +123,10 @@ export function MCPProvider({ children }: MCPProviderProps) {
   const [messages, setMessages] = useState<MCPMonitorMessage[]>([]);
   const maxMessages = 100; // Keep last 100 messages
   
+  // Server log entries from notifications/message
+  const [logs, setLogs] = useState<MCPLogEntry[]>([]);
+  const maxLogs = 500; // Keep last 500 log entries across all servers
+  
   // Keep refs in sync with state
   useEffect(() => {
     messageCallbacksRef.current = messageCallbacks;
@@ -84,6 +174,193 @@ export function MCPProvider({ children }: MCPProviderProps) {
     });
   }, [addMessage]); // Only depends on addMessage, uses ref for connections
 
+  // Store log entries from any connection (stable reference)
+  const handleLogMessage = useCallback<MCPLogCallback>((connection, params) => {
+    const entry: MCPLogEntry = {
+      id: uuidv4(),
+      timestamp: new Date(),
+      connectionId: connection.id,
+      serverName: connection.name,
+      level: params.level,
+      logger: params.logger,
+      data: params.data,
+    };
+    setLogs(prev => [...prev, entry].slice(-maxLogs));
+  }, []);
+
+  // Forward resource updates from any connection to registered listeners (stable reference)
+  const broadcastResourceUpdate = useCallback<MCPResourceUpdateCallback>((connection, subscription) => {
+    resourceUpdateCallbacksRef.current.forEach(callback => {
+      try {
+        callback(connection, subscription);
+      } catch (error) {
+        console.error('Error in MCP resource update callback:', error);
+      }
+    });
+  }, []);
+
+  // Ask the user to approve a server's sampling request, then run it on the active inference provider
+  const runSamplingRequest = useCallback<MCPSamplingHandler>(async (connection, request, signal) => {
+    if (!isInferenceAuthenticated) {
+      throw new McpError(ErrorCode.InternalError, 'No inference provider is connected');
+    }
+
+    const model = selectSamplingModel(inferenceModels, request.modelPreferences, selectedModel);
+    const requestId = uuidv4();
+
+    const approved = await new Promise<boolean>(resolve => {
+      const finish = (result: boolean) => {
+        signal.removeEventListener('abort', onAbort);
+        samplingResolvers.current.delete(requestId);
+        setSamplingRequests(prev => prev.filter(pending => pending.id !== requestId));
+        resolve(result);
+      };
+      // The server cancelled or the connection closed
+      const onAbort = () => finish(false);
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      samplingResolvers.current.set(requestId, finish);
+      setSamplingRequests(prev => [...prev, {
+        id: requestId,
+        connectionId: connection.id,
+        serverName: connection.name,
+        request,
+        modelId: model?.id,
+        createdAt: new Date(),
+      }]);
+    });
+
+    if (!approved) {
+      throw new McpError(-1, 'User rejected sampling request');
+    }
+
+    const response = await generateResponse({
+      messages: request.messages.map(fromSamplingMessage),
+      model: model?.id,
+      systemPrompt: request.systemPrompt,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      stopSequences: request.stopSequences,
+    });
+
+    const text = typeof response.message.content === 'string'
+      ? response.message.content
+      : response.message.content.map(block => block.text || '').join('');
+
+    return {
+      model: model?.id || 'unknown',
+      role: 'assistant',
+      content: { type: 'text', text },
+      stopReason: response.stopReason === 'max_tokens' ? 'maxTokens' : response.stopReason === 'stop' ? 'endTurn' : response.stopReason,
+    };
+  }, [isInferenceAuthenticated, inferenceModels, selectedModel, generateResponse]);
+
+  useEffect(() => {
+    samplingHandlerRef.current = runSamplingRequest;
+  }, [runSamplingRequest]);
+
+  // Stable handler given to connection managers; always uses the latest inference state
+  const handleSamplingRequest = useCallback<MCPSamplingHandler>((connection, request, signal) => {
+    if (!samplingHandlerRef.current) {
+      return Promise.reject(new McpError(ErrorCode.InternalError, 'Sampling is not available'));
+    }
+    return samplingHandlerRef.current(connection, request, signal);
+  }, []);
+
+  const resolveSamplingRequest = useCallback((requestId: string, approved: boolean) => {
+    samplingResolvers.current.get(requestId)?.(approved);
+  }, []);
+
+  // Show a server's elicitation form and wait for the user to accept, decline or cancel it
+  const handleElicitationRequest = useCallback<MCPElicitationHandler>((connection, request, signal) => {
+    if (request.mode === 'url') {
+      return Promise.reject(new McpError(ErrorCode.InvalidParams, 'URL mode elicitation is not supported'));
+    }
+
+    const requestId = uuidv4();
+
+    return new Promise<MCPElicitationResult>(resolve => {
+      const finish = (result: MCPElicitationResult) => {
+        signal.removeEventListener('abort', onAbort);
+        elicitationResolvers.current.delete(requestId);
+        setElicitationRequests(prev => prev.filter(pending => pending.id !== requestId));
+        resolve(result);
+      };
+      // The server cancelled or the connection closed
+      const onAbort = () => finish({ action: 'cancel' });
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      elicitationResolvers.current.set(requestId, finish);
+      setElicitationRequests(prev => [...prev, {
+        id: requestId,
+        connectionId: connection.id,
+        serverName: connection.name,
+        request,
+        createdAt: new Date(),
+      }]);
+    });
+  }, []);
+
+  const resolveElicitationRequest = useCallback((requestId: string, result: MCPElicitationResult) => {
+    elicitationResolvers.current.get(requestId)?.(result);
+  }, []);
+
+  // Global roots followed by the connection's own, without duplicates
+  const resolveRoots = useCallback((connection: MCPConnection): MCPRoot[] => {
+    const combined = [...rootsRef.current, ...(connection.config.roots || [])];
+    return combined.filter((root, index) => combined.findIndex(other => other.uri === root.uri) === index);
+  }, []);
+
+  // Handlers given to every connection manager, read through a ref so managers always reach
+  // the latest ones and createManager never has to change
+  const managerHandlersRef = useRef({
+    broadcastMessage,
+    handleSamplingRequest,
+    handleElicitationRequest,
+    resolveRoots,
+    broadcastResourceUpdate,
+    handleLogMessage,
+  });
+  managerHandlersRef.current = {
+    broadcastMessage,
+    handleSamplingRequest,
+    handleElicitationRequest,
+    resolveRoots,
+    broadcastResourceUpdate,
+    handleLogMessage,
+  };
+
+  // Create a connection manager, wire it to this context and add it to the connection list
+  const createManager = useCallback((connectionId: string, config: MCPServerConfig): MCPConnectionManager => {
+    const manager = new MCPConnectionManager(connectionId, config);
+    const handlers = managerHandlersRef;
+
+    // Set up callback for connection state updates
+    manager.setConnectionUpdateCallback(() => {
+      setConnections(prev => {
+        connectionsRef.current = prev.map(conn =>
+          conn.id === connectionId ? manager.getConnection() : conn
+        );
+        return connectionsRef.current;
+      });
+    });
+
+    manager.setMessageCallback((...args) => handlers.current.broadcastMessage(...args));
+    manager.setSamplingHandler((...args) => handlers.current.handleSamplingRequest(...args));
+    manager.setElicitationHandler((...args) => handlers.current.handleElicitationRequest(...args));
+    manager.setRootsProvider(connection => handlers.current.resolveRoots(connection));
+    manager.setResourceUpdateCallback((...args) => handlers.current.broadcastResourceUpdate(...args));
+    manager.setLogCallback((...args) => handlers.current.handleLogMessage(...args));
+
+    // Add to managers map
+    setManagers(prev => new Map(prev).set(connectionId, manager));
+
+    // Add initial connection state
+    setConnections(prev => [...prev, manager.getConnection()]);
+
+    return manager;
+  }, []);
+
   // Load persisted connections from localStorage on mount
   useEffect(() => {
     // Prevent loading if we've already loaded
@@ -106,33 +383,22 @@ export function MCPProvider({ children }: MCPProviderProps) {
                 : persistedData_parsed.map((config: MCPServerConfig) => ({id: uuidv4(), config})))
             : [];
           
+          // An authorization that left this tab for the authorization server comes back here
+          const redirectResult = takeOAuthRedirectResult('mcp');
+          
           // Restore connections and auto-reconnect
           for (const {id: connectionId, config} of persistedConnections) {
             try {
-              const manager = new MCPConnectionManager(connectionId, config);
-              
-              // Set up callback for connection state updates
-              manager.setConnectionUpdateCallback(() => {
-                setConnections(prev => {
-                  connectionsRef.current = prev.map(conn => 
-                    conn.id === connectionId ? manager.getConnection() : conn
-                  )
-                  return connectionsRef.current
-                });
-              });
-              
-              // Set up message callback
-              manager.setMessageCallback(broadcastMessage);
-              
-              // Add to managers map
-              setManagers(prev => new Map(prev).set(connectionId, manager));
-              
-              // Add initial connection state
-              setConnections(prev => [...prev, manager.getConnection()]);
+              const manager = createManager(connectionId, config);
               
               // Auto-connect on restoration
               try {
-                await manager.connect();
+                if (redirectResult && manager.ownsAuthorizationState(redirectResult.state)) {
+                  // Exchange the returned code rather than connecting, which would start another authorization
+                  await manager.completeAuthorizationRedirect(redirectResult);
+                } else {
+                  await manager.connect();
+                }
                 console.log(`Auto-reconnected to ${config.name}`);
               } catch (error) {
                 console.warn(`Failed to auto-reconnect to ${config.name}:`, error);
@@ -157,31 +423,16 @@ export function MCPProvider({ children }: MCPProviderProps) {
         return;
       }
 
-      // Add each available local server
+      // Add each available local server with the tool policies chosen in earlier sessions
+      const localToolPolicies = loadLocalToolPolicies();
       for (const serverConfig of availableServers) {
         try {
           const connectionId = uuidv4();
-          const manager = new MCPConnectionManager(connectionId, serverConfig);
-          
-          // Set up callback for connection state updates
-          manager.setConnectionUpdateCallback(() => {
-            setConnections(prev => {
-               connectionsRef.current = prev.map(conn => 
-                  conn.id === connectionId ? manager.getConnection() : conn
-                );
-               return connectionsRef.current;
-            });
+          const manager = createManager(connectionId, {
+            ...serverConfig,
+            toolPolicies: localToolPolicies[serverConfig.name],
           });
           
-          // Set up message callback
-          manager.setMessageCallback(broadcastMessage);
-          
-          // Add to managers map
-          setManagers(prev => new Map(prev).set(connectionId, manager));
-          
-          // Add initial connection state
-          setConnections(prev => [...prev, manager.getConnection()]);
-          
           // Auto-connect local servers
           await manager.connect();
           console.log(`Connected to local server: ${serverConfig.name}`);
@@ -192,7 +443,7 @@ export function MCPProvider({ children }: MCPProviderProps) {
     };
 
     loadPersistedConnections();
-  }, []); // Empty dependency array - only run once on mount
+  }, [createManager]); // createManager is stable, so this only runs once on mount
 
   const persistConnections = useCallback(() => {
     try {
@@ -202,6 +453,17 @@ export function MCPProvider({ children }: MCPProviderProps) {
         config: conn.config
       }));
       localStorage.setItem('mcp_connections', JSON.stringify(connectionData));
+
+      // Only update servers that are present, so saving before local servers are added keeps their policies
+      const localToolPolicies = loadLocalToolPolicies();
+      for (const conn of connections.filter(conn => conn.url === 'local')) {
+        if (conn.config.toolPolicies) {
+          localToolPolicies[conn.name] = conn.config.toolPolicies;
+        } else {
+          delete localToolPolicies[conn.name];
+        }
+      }
+      localStorage.setItem(LOCAL_TOOL_POLICIES_KEY, JSON.stringify(localToolPolicies));
     } catch (error) {
       console.error('Failed to persist MCP connections:', error);
     }
@@ -215,7 +477,7 @@ export function MCPProvider({ children }: MCPProviderProps) {
     }
   }, [persistConnections]);
 
-  const addMcpServer = useCallback(async (config: MCPServerConfig): Promise<string> => {
+  const addMcpServer = useCallback(async (config: MCPServerConfig, credentials?: MCPStaticCredentials): Promise<string> => {
     const connectionId = uuidv4();
     
     setIsLoading(true);
@@ -223,25 +485,10 @@ export function MCPProvider({ children }: MCPProviderProps) {
 
     try {
       // Create connection manager
-      const manager = new MCPConnectionManager(connectionId, config);
-      
-      // Set up callback for connection state updates
-      manager.setConnectionUpdateCallback(() => {
-        setConnections(prev => 
-          prev.map(conn => 
-            conn.id === connectionId ? manager.getConnection() : conn
-          )
-        );
-      });
-      
-      // Set up message callback
-      manager.setMessageCallback(broadcastMessage);
-      
-      // Add to managers map
-      setManagers(prev => new Map(prev).set(connectionId, manager));
-      
-      // Add initial connection state
-      setConnections(prev => [...prev, manager.getConnection()]);
+      const manager = createManager(connectionId, config);
+      if (credentials) {
+        manager.setStaticCredentials(credentials);
+      }
       
       // Attempt to connect
       try {
@@ -292,13 +539,14 @@ export function MCPProvider({ children }: MCPProviderProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [managers]);
+  }, [managers, createManager]);
 
   const removeMcpServer = useCallback((connectionId: string) => {
     const manager = managers.get(connectionId);
     if (manager) {
       // Disconnect the server
       manager.disconnect();
+      manager.clearStaticCredentials();
       
       // Remove from managers
       setManagers(prev => {
@@ -346,23 +594,24 @@ export function MCPProvider({ children }: MCPProviderProps) {
     }
   }, [managers]);
 
+  // Read through the ref so a running agent loop sees tools refreshed by list_changed notifications
   const getAllTools = useCallback((): Tool[] => {
-    return connections.flatMap(conn => conn.tools);
-  }, [connections]);
+    return connectionsRef.current.flatMap(conn => conn.tools);
+  }, []);
 
   const getToolsForServer = useCallback((connectionId: string): Tool[] => {
-    const connection = connections.find(conn => conn.id === connectionId);
+    const connection = connectionsRef.current.find(conn => conn.id === connectionId);
     return connection?.tools || [];
-  }, [connections]);
+  }, []);
 
-  const callTool = useCallback(async (connectionId: string, toolName: string, args: any): Promise<any> => {
+  const callTool = useCallback(async (connectionId: string, toolName: string, args: any, options?: MCPToolCallOptions): Promise<any> => {
     const manager = managers.get(connectionId);
     if (!manager) {
       throw new Error(`Connection ${connectionId} not found`);
     }
 
     try {
-      return await manager.callTool(toolName, args);
+      return await manager.callTool(toolName, args, options);
     } catch (error) {
       // Update connection state in case status changed
       setConnections(prev => 
@@ -383,6 +632,60 @@ export function MCPProvider({ children }: MCPProviderProps) {
     return connection?.resources || [];
   }, [connections]);
 
+  const readResource = useCallback(async (connectionId: string, uri: string): Promise<MCPResourceContents[]> => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    return manager.readResource(uri);
+  }, [managers]);
+
+  const subscribeResource = useCallback(async (connectionId: string, uri: string): Promise<void> => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    await manager.subscribeResource(uri);
+  }, [managers]);
+
+  const unsubscribeResource = useCallback(async (connectionId: string, uri: string): Promise<void> => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    await manager.unsubscribeResource(uri);
+  }, [managers]);
+
+  const markResourceUpdateSeen = useCallback((connectionId: string, uri: string) => {
+    managers.get(connectionId)?.markResourceUpdateSeen(uri);
+  }, [managers]);
+
+  const setResourceUpdateNotes = useCallback((enabled: boolean) => {
+    setResourceUpdateNotesState(enabled);
+    localStorage.setItem('mcp_resource_update_notes', String(enabled));
+  }, []);
+
+  const getPrompt = useCallback(async (connectionId: string, name: string, args: Record<string, string>): Promise<MCPPromptResult> => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    return manager.getPrompt(name, args);
+  }, [managers]);
+
+  const complete = useCallback(async (connectionId: string, request: MCPCompletionRequest, signal?: AbortSignal): Promise<string[]> => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    return manager.complete(request, signal);
+  }, [managers]);
+
   const getConnectedServers = useCallback((): MCPConnection[] => {
     return connections.filter(conn => conn.status === 'connected');
   }, [connections]);
@@ -397,6 +700,9 @@ export function MCPProvider({ children }: MCPProviderProps) {
   }, [connections]);
 
   const updateServerConfig = useCallback((connectionId: string, configUpdate: Partial<MCPServerConfig>) => {
+    // Keep the manager in sync so its next connection update doesn't revert the change
+    managers.get(connectionId)?.updateConfig(configUpdate);
+
     setConnections(prev => 
       prev.map(conn => 
         conn.id === connectionId 
@@ -404,7 +710,110 @@ export function MCPProvider({ children }: MCPProviderProps) {
           : conn
       )
     );
-  }, []);
+  }, [managers]);
+
+  const setRoots = useCallback((newRoots: MCPRoot[]) => {
+    rootsRef.current = newRoots;
+    setRootsState(newRoots);
+    localStorage.setItem('mcp_roots', JSON.stringify(newRoots));
+
+    // Every server sees the global roots
+    managers.forEach(manager => manager.sendRootsListChanged());
+  }, [managers]);
+
+  const setConnectionRoots = useCallback((connectionId: string, connectionRoots: MCPRoot[]) => {
+    updateServerConfig(connectionId, { roots: connectionRoots });
+    managers.get(connectionId)?.sendRootsListChanged();
+  }, [managers, updateServerConfig]);
+
+  const getRootsForConnection = useCallback((connectionId: string): MCPRoot[] => {
+    const connection = connections.find(conn => conn.id === connectionId);
+    return connection ? resolveRoots(connection) : rootsRef.current;
+  }, [connections, resolveRoots]);
+
+  const getToolPolicy = useCallback((connectionId: string, toolName: string): ToolApprovalPolicy => {
+    const connection = connections.find(conn => conn.id === connectionId);
+    if (!connection) {
+      return 'ask';
+    }
+
+    const policies = connection.config.toolPolicies;
+    const unprefixedName = unprefixToolName(connection.name, toolName);
+    const toolPolicy = policies?.tools?.[unprefixedName];
+    if (toolPolicy) {
+      return toolPolicy;
+    }
+
+    // Read-only tools skip confirmation unless the whole server is denied
+    const tool = connection.tools.find(t => unprefixToolName(connection.name, t.function.name) === unprefixedName);
+    if (tool && isReadOnlyTool(tool) && policies?.default !== 'deny') {
+      return 'allow';
+    }
+
+    return policies?.default || 'ask';
+  }, [connections]);
+
+  const setToolPolicy = useCallback((connectionId: string, toolName: string | undefined, policy: ToolApprovalPolicy | undefined) => {
+    const connection = connections.find(conn => conn.id === connectionId);
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    const policies = connection.config.toolPolicies || {};
+    if (!toolName) {
+      updateServerConfig(connectionId, { toolPolicies: { ...policies, default: policy } });
+      return;
+    }
+
+    const tools = { ...policies.tools };
+    if (policy) {
+      tools[unprefixToolName(connection.name, toolName)] = policy;
+    } else {
+      delete tools[unprefixToolName(connection.name, toolName)];
+    }
+    const toolPolicies: ToolApprovalPolicies = { ...policies, tools };
+
+    updateServerConfig(connectionId, { toolPolicies });
+  }, [connections, updateServerConfig]);
+
+  // Read straight from storage, so the list reflects tokens saved or cleared since the last render
+  const getAuthorizations = useCallback((): MCPAuthorizationInfo[] => {
+    return Array.from(managers.values())
+      .map(manager => manager.getAuthorizationInfo())
+      .filter((info): info is MCPAuthorizationInfo => info !== undefined);
+  }, [managers]);
+
+  const revokeAuthorization = useCallback(async (connectionId: string): Promise<boolean> => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+    return manager.revokeAuthorization();
+  }, [managers]);
+
+  const forgetClientRegistration = useCallback((connectionId: string) => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+    manager.clearSharedClientData();
+  }, [managers]);
+
+  const reauthorize = useCallback(async (connectionId: string): Promise<void> => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+    await manager.reauthorize();
+  }, [managers]);
+
+  const continueAuthorizationInTab = useCallback((connectionId: string) => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+    manager.continueAuthorizationInTab();
+  }, [managers]);
 
   const handleOAuthCallback = useCallback(async (connectionId: string, authorizationCode: string): Promise<void> => {
     const manager = managers.get(connectionId);
@@ -446,6 +855,30 @@ export function MCPProvider({ children }: MCPProviderProps) {
     }
   }, [managers]);
 
+  const setLogLevel = useCallback(async (connectionId: string, level: MCPLogLevel): Promise<void> => {
+    const manager = managers.get(connectionId);
+    if (!manager) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    await manager.setLogLevel(level);
+  }, [managers]);
+
+  const clearLogs = useCallback((connectionId?: string) => {
+    setLogs(prev => connectionId ? prev.filter(entry => entry.connectionId !== connectionId) : []);
+  }, []);
+
+  // Resource update callback management
+  const addResourceUpdateCallback = useCallback((callback: MCPResourceUpdateCallback): string => {
+    const callbackId = uuidv4();
+    resourceUpdateCallbacksRef.current.set(callbackId, callback);
+    return callbackId;
+  }, []);
+
+  const removeResourceUpdateCallback = useCallback((callbackId: string) => {
+    resourceUpdateCallbacksRef.current.delete(callbackId);
+  }, []);
+
   // Message callback management
   const addMessageCallback = useCallback((callback: MCPMessageCallback): string => {
     const callbackId = uuidv4();
@@ -477,11 +910,39 @@ export function MCPProvider({ children }: MCPProviderProps) {
     callTool,
     getAllResources,
     getResourcesForServer,
+    readResource,
+    subscribeResource,
+    unsubscribeResource,
+    markResourceUpdateSeen,
+    addResourceUpdateCallback,
+    removeResourceUpdateCallback,
+    resourceUpdateNotes,
+    setResourceUpdateNotes,
+    getPrompt,
+    complete,
     getConnectedServers,
     getServerStatus,
     getConnectionById,
     updateServerConfig,
+    getToolPolicy,
+    setToolPolicy,
+    roots,
+    setRoots,
+    setConnectionRoots,
+    getRootsForConnection,
+    samplingRequests,
+    resolveSamplingRequest,
+    elicitationRequests,
+    resolveElicitationRequest,
     handleOAuthCallback,
+    getAuthorizations,
+    revokeAuthorization,
+    forgetClientRegistration,
+    reauthorize,
+    continueAuthorizationInTab,
+    logs,
+    setLogLevel,
+    clearLogs,
     messages,
     addMessageCallback,
     removeMessageCallback,
@@ -1,6 +1,6 @@
 // Agent loop hook with MCP and test tool integration
 
-import { useCallback, useRef } from 'react';
+import { useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 
 import type {
@@ -9,13 +9,18 @@ import type {
   UseAgentLoopReturn,
   ConversationMessage,
   Conversation,
+  PendingToolCall,
+  ToolApprovalDecision,
+  ResourceBlock,
   ToolResultBlock,
   TestTool,
 } from '@/types/conversation';
-import type { ChatMessage, Tool, ToolCall, InferenceRequest } from '@/types/inference';
+import type { ToolApprovalPolicy, MCPToolCallOptions } from '@/types/mcp';
+import type { ChatMessage, ContentBlock, Tool, ToolCall, InferenceRequest, InferenceResponse } from '@/types/inference';
 import { useInference } from '@/contexts/InferenceContext';
 import { useMCP } from '@/contexts/MCPContext';
 import { normalizeServerName } from '@/utils/mcpUtils';
+import { getErrorMessage } from '@/utils/errors';
 
 // Test tools that work alongside MCP tools
 const testTools: TestTool[] = [
@@ -92,16 +97,79 @@ const DEFAULT_CONFIG: AgentLoopConfig = {
   systemMessage: 'You are a helpful assistant with access to various tools. Use them when needed to answer questions accurately.',
   temperature: 0.7,
   stopOnError: false,
+  streamResponses: true,
+  maxConcurrentToolCalls: 4,
 };
 
-export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoopReturn {
-  const finalConfig = { ...DEFAULT_CONFIG, ...config };
-  const { provider: currentProvider, isAuthenticated, generateResponse } = useInference();
-  const { getAllTools, callTool: callMCPTool, connections } = useMCP();
+// Shared default so callers that pass no config keep the loop callbacks stable
+const NO_CONFIG_OVERRIDES: Partial<AgentLoopConfig> = {};
+
+// Minimum interval between conversation updates while a response is streaming
+const STREAM_UPDATE_INTERVAL_MS = 50;
+
+// Run worker over items with at most `limit` in flight. Results keep the input order;
+// items not started before shouldStop() returns true are left undefined.
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  shouldStop: () => boolean
+): Promise<(R | undefined)[]> {
+  const results: (R | undefined)[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length && !shouldStop()) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runNext)
+  );
+  return results;
+}
+
+// Convert an attached MCP resource into a content block the providers understand.
+// Images are passed through in user turns, the only role chat APIs accept them in;
+// other binary content is only described.
+function resourceToContentBlock(resource: ResourceBlock, allowImages: boolean): ContentBlock {
+  const label = resource.name ? `${resource.name} (${resource.uri})` : resource.uri;
+
+  if (resource.blob && allowImages && resource.mimeType?.startsWith('image/')) {
+    return { type: 'image', imageUrl: `data:${resource.mimeType};base64,${resource.blob}` };
+  }
+
+  if (resource.blob) {
+    return {
+      type: 'text',
+      text: `[Attached resource ${label} from ${resource.serverName}: ${resource.mimeType || 'binary'} content not included]`,
+    };
+  }
+
+  return {
+    type: 'text',
+    text: `<resource uri="${resource.uri}" server="${resource.serverName}"${resource.mimeType ? ` mimeType="${resource.mimeType}"` : ''}>\n${resource.text || ''}\n</resource>`,
+  };
+}
+
+// Callers passing a config should memoize it; a new object recreates executeAgentLoop
+export function useAgentLoop(config: Partial<AgentLoopConfig> = NO_CONFIG_OVERRIDES): UseAgentLoopReturn {
+  const finalConfig = useMemo(() => ({ ...DEFAULT_CONFIG, ...config }), [config]);
+  const { provider: currentProvider, isAuthenticated, generateResponse, generateStreamingResponse } = useInference();
+  const { getAllTools, callTool: callMCPTool, connections, getToolPolicy } = useMCP();
   
   // Track running loops
   const loopStates = useRef<Map<string, AgentLoopState>>(new Map());
 
+  // Read through a ref so a policy changed from the approval prompt applies later in the same run
+  const getToolPolicyRef = useRef(getToolPolicy);
+  getToolPolicyRef.current = getToolPolicy;
+
+  // Resolvers for tool calls waiting on user approval, keyed by "conversationId:toolCallId"
+  const pendingApprovals = useRef<Map<string, (decision: ToolApprovalDecision) => void>>(new Map());
+
   // Helper: Convert conversation messages to inference format
   const toInferenceMessages = useCallback((messages: ConversationMessage[]): ChatMessage[] => {
     return messages.map(msg => {
@@ -118,10 +186,13 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
       let content = '';
       const toolCalls: ToolCall[] = [];
       let toolCallId: string | undefined;
+      const attachments: ContentBlock[] = [];
 
       for (const block of msg.content) {
         if (block.type === 'text') {
           content += block.text;
+        } else if (block.type === 'resource') {
+          attachments.push(resourceToContentBlock(block, msg.role === 'user'));
         } else if (block.type === 'tool_use') {
           toolCalls.push({
             id: block.id,
@@ -142,6 +213,14 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
         }
       }
 
+      // Attached resources are sent as extra content blocks after the text
+      if (attachments.length > 0) {
+        return {
+          role: msg.role,
+          content: content ? [{ type: 'text', text: content }, ...attachments] : attachments,
+        };
+      }
+
       return {
         role: msg.role,
         content: content || '',
@@ -185,8 +264,51 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
     };
   }, []);
 
-  // Helper: Execute a tool call
-  const executeTool = useCallback(async (toolCall: ToolCall): Promise<{ result: any; error?: string }> => {
+  // Helper: Find the MCP connection serving a prefixed tool name ("normalized_server__tool_name")
+  const findToolConnection = useCallback((toolName: string) => {
+    const [normalizedServerName] = toolName.split('__');
+    return connections.find(conn => normalizeServerName(conn.name) === normalizedServerName);
+  }, [connections]);
+
+  // Helper: Decide whether a tool call may run. Built-in test tools are always allowed.
+  const getApprovalPolicy = useCallback((toolCall: ToolCall): ToolApprovalPolicy => {
+    if (testTools.some(t => t.function.name === toolCall.function.name)) {
+      return 'allow';
+    }
+
+    const connection = toolCall.function.name.includes('__') ? findToolConnection(toolCall.function.name) : undefined;
+    // Unknown tools fail during execution, there's nothing to approve
+    return connection ? getToolPolicyRef.current(connection.id, toolCall.function.name) : 'allow';
+  }, [findToolConnection]);
+
+  // Helper: Pause until the user approves or denies a tool call (stopping the loop denies it)
+  const requestApproval = useCallback((
+    conversationId: string,
+    toolCallId: string,
+    signal: AbortSignal
+  ): Promise<ToolApprovalDecision> => {
+    const key = `${conversationId}:${toolCallId}`;
+
+    return new Promise(resolve => {
+      const onAbort = () => {
+        pendingApprovals.current.delete(key);
+        resolve({ action: 'deny', reason: 'Agent loop stopped' });
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      pendingApprovals.current.set(key, (decision) => {
+        signal.removeEventListener('abort', onAbort);
+        pendingApprovals.current.delete(key);
+        resolve(decision);
+      });
+    });
+  }, []);
+
+  // Helper: Execute a tool call. The signal and progress callback only apply to MCP tools.
+  const executeTool = useCallback(async (
+    toolCall: ToolCall,
+    options: MCPToolCallOptions = {}
+  ): Promise<{ result: any; error?: string }> => {
     try {
       // Check if it's a test tool
       const testTool = testTools.find(t => t.function.name === toolCall.function.name);
@@ -197,16 +319,11 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
 
       // Check if it's an MCP tool (prefixed with server name using double underscore)
       if (toolCall.function.name.includes('__')) {
-        // Extract normalized server name from tool name (format: "normalized_server__tool_name")
         const [normalizedServerName] = toolCall.function.name.split('__');
-        
-        // Find the connection ID by comparing normalized server names
-        const connection = connections.find(conn => {
-          return normalizeServerName(conn.name) === normalizedServerName;
-        });
+        const connection = findToolConnection(toolCall.function.name);
         
         if (connection) {
-          const result = await callMCPTool(connection.id, toolCall.function.name, toolCall.function.arguments);
+          const result = await callMCPTool(connection.id, toolCall.function.name, toolCall.function.arguments, options);
           return { result };
         } else {
           throw new Error(`MCP server with normalized name "${normalizedServerName}" not found or not connected`);
@@ -217,10 +334,10 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
     } catch (error) {
       return {
         result: null,
-        error: error instanceof Error ? error.message : 'Tool execution failed',
+        error: getErrorMessage(error, 'Tool execution failed'),
       };
     }
-  }, [getAllTools, callMCPTool, connections]);
+  }, [callMCPTool, findToolConnection]);
 
   // Main agent loop execution - processes the conversation and generates responses with tool calls
   const executeAgentLoop = useCallback(async (
@@ -279,14 +396,55 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
           temperature: finalConfig.temperature,
         };
 
-        const response = await generateResponse(request);
+        // Stream partial assistant text into the conversation as it arrives
+        const assistantMessageId = uuidv4();
+        let response: InferenceResponse;
+
+        if (finalConfig.streamResponses) {
+          const conversationBeforeResponse = currentConversation;
+          let partialText = '';
+          let lastUpdate = 0;
+
+          response = await generateStreamingResponse(request, (chunk) => {
+            if (chunk.type !== 'text_delta' || !chunk.text || abortController.signal.aborted) {
+              return;
+            }
+
+            partialText += chunk.text;
+
+            const now = Date.now();
+            if (now - lastUpdate < STREAM_UPDATE_INTERVAL_MS) {
+              return;
+            }
+            lastUpdate = now;
+
+            onUpdate({
+              ...conversationBeforeResponse,
+              messages: [
+                ...conversationBeforeResponse.messages,
+                {
+                  id: assistantMessageId,
+                  role: 'assistant',
+                  content: [{ type: 'text', text: partialText }],
+                  timestamp: new Date(),
+                },
+              ],
+              updatedAt: new Date(),
+            });
+          }, abortController.signal);
+        } else {
+          response = await generateResponse(request);
+        }
 
         if (abortController.signal.aborted) {
           break;
         }
 
-        // Add assistant response to conversation
-        const assistantMessage = fromInferenceResponse(response.message);
+        // Add assistant response to conversation, replacing any streamed partial message
+        const assistantMessage = {
+          ...fromInferenceResponse(response.message),
+          id: assistantMessageId,
+        };
         
         currentConversation = {
           ...currentConversation,
@@ -303,31 +461,116 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
           break;
         }
 
-        // Execute tool calls
+        // Execute tool calls concurrently, tracking per-call status for the UI
         loopState.currentStep = 'tool_execution';
-        currentConversation.status = 'calling_tools';
-        onUpdate(currentConversation);
+        const toolCalls = response.message.toolCalls;
+        const pendingToolCalls: PendingToolCall[] = toolCalls.map(toolCall => ({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          input: toolCall.function.arguments,
+          status: 'queued',
+        }));
 
-        const toolResults: ToolResultBlock[] = [];
+        const publishToolStatus = () => {
+          currentConversation = {
+            ...currentConversation,
+            status: 'calling_tools',
+            pendingToolCalls: pendingToolCalls.map(call => ({ ...call })),
+          };
+          onUpdate(currentConversation);
+        };
+        publishToolStatus();
+
+        const executionResults = await mapWithConcurrency(
+          toolCalls,
+          finalConfig.maxConcurrentToolCalls,
+          async (toolCall, index) => {
+            let approvedCall = toolCall;
+            const policy = getApprovalPolicy(toolCall);
+
+            if (policy === 'deny') {
+              pendingToolCalls[index] = { ...pendingToolCalls[index], status: 'denied' };
+              publishToolStatus();
+              return { result: null, error: 'Tool call denied by policy' };
+            }
+
+            if (policy === 'ask') {
+              pendingToolCalls[index] = { ...pendingToolCalls[index], status: 'awaiting_approval' };
+              publishToolStatus();
+
+              const decision = await requestApproval(conversationId, toolCall.id, abortController.signal);
+              if (decision.action === 'deny') {
+                pendingToolCalls[index] = { ...pendingToolCalls[index], status: 'denied' };
+                publishToolStatus();
+                return {
+                  result: null,
+                  error: `User denied the tool call${decision.reason ? `: ${decision.reason}` : ''}`,
+                };
+              }
+
+              if (decision.input) {
+                // Record the edited arguments so the history matches what actually ran
+                approvedCall = { ...toolCall, function: { ...toolCall.function, arguments: decision.input } };
+                pendingToolCalls[index] = { ...pendingToolCalls[index], input: decision.input };
+                currentConversation = {
+                  ...currentConversation,
+                  messages: currentConversation.messages.map(msg => msg.id !== assistantMessage.id ? msg : {
+                    ...msg,
+                    content: msg.content.map(block =>
+                      block.type === 'tool_use' && block.id === toolCall.id ? { ...block, input: decision.input! } : block
+                    ),
+                    toolCalls: msg.toolCalls?.map(call => call.id === toolCall.id ? approvedCall : call),
+                  }),
+                };
+              }
+            }
+
+            pendingToolCalls[index] = { ...pendingToolCalls[index], status: 'running', startedAt: new Date() };
+            publishToolStatus();
+
+            // Progress can arrive rapidly, so throttle UI updates like streamed text
+            let lastProgressUpdate = 0;
+            const execution = await executeTool(approvedCall, {
+              signal: abortController.signal,
+              onProgress: (progress) => {
+                pendingToolCalls[index] = { ...pendingToolCalls[index], progress };
+                const now = Date.now();
+                if (now - lastProgressUpdate >= STREAM_UPDATE_INTERVAL_MS) {
+                  lastProgressUpdate = now;
+                  publishToolStatus();
+                }
+              },
+            });
+
+            pendingToolCalls[index] = {
+              ...pendingToolCalls[index],
+              status: execution.error ? 'error' : 'completed',
+              completedAt: new Date(),
+              error: execution.error,
+            };
+            publishToolStatus();
+
+            return execution;
+          },
+          () => abortController.signal.aborted
+        );
 
-        for (const toolCall of response.message.toolCalls) {
-          if (abortController.signal.aborted) {
-            break;
-          }
+        // Build results in the order the model requested the calls, skipping any that never started
+        const toolResults: ToolResultBlock[] = [];
+        toolCalls.forEach((toolCall, index) => {
+          const execution = executionResults[index];
+          if (!execution) return;
 
-          const { result, error } = await executeTool(toolCall);
-          
-          const toolResult: ToolResultBlock = {
+          const { result, error } = execution;
+          toolResults.push({
             type: 'tool_result',
             tool_use_id: toolCall.id,
             content: error 
               ? [{ type: 'error', error }]
               : [{ type: 'text', text: JSON.stringify(result, null, 2) }],
             is_error: !!error,
-          };
-
-          toolResults.push(toolResult);
-        }
+          });
+        });
 
         // Add tool results as separate messages
         const toolResultMessages: ConversationMessage[] = toolResults.map(result => ({
@@ -342,6 +585,7 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
           ...currentConversation,
           messages: [...currentConversation.messages, ...toolResultMessages],
           status: 'thinking',
+          pendingToolCalls: undefined,
           updatedAt: new Date(),
         };
 
@@ -363,13 +607,14 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
       loopState.error = error instanceof Error ? error.message : 'Agent loop failed';
       loopState.isRunning = false;
       
-      if (finalConfig.stopOnError) {
+      // Stopping the loop cancels the streaming request, which isn't an error
+      if (finalConfig.stopOnError && !abortController.signal.aborted) {
         throw error;
       }
     } finally {
       loopStates.current.delete(conversationId);
     }
-  }, [isAuthenticated, currentProvider, finalConfig, toInferenceMessages, fromInferenceResponse, getAllTools, executeTool]);
+  }, [isAuthenticated, currentProvider, finalConfig, generateResponse, generateStreamingResponse, toInferenceMessages, fromInferenceResponse, getAllTools, getApprovalPolicy, requestApproval, executeTool]);
 
   const stopLoop = useCallback((conversationId: string) => {
     const loopState = loopStates.current.get(conversationId);
@@ -383,9 +628,18 @@ export function useAgentLoop(config: Partial<AgentLoopConfig> = {}): UseAgentLoo
     return loopStates.current.get(conversationId);
   }, []);
 
+  const resolveToolApproval = useCallback((
+    conversationId: string,
+    toolCallId: string,
+    decision: ToolApprovalDecision
+  ) => {
+    pendingApprovals.current.get(`${conversationId}:${toolCallId}`)?.(decision);
+  }, []);
+
   return {
     executeAgentLoop,
     stopLoop,
     getLoopState,
+    resolveToolApproval,
   };
 }
\ No newline at end of file
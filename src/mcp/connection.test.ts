@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPDiscoveryProgress } from '@/types/mcp';
+import { MCPConnectionManager, MAX_DISCOVERY_PAGES } from './connection';
+import { createServer as createPagedServer } from './servers/paged';
+
+// Minimal browser globals the connection manager and its OAuth provider touch
+function createStorage(): Storage {
+  const values = new Map<string, string>();
+  return {
+    get length() { return values.size; },
+    clear: () => values.clear(),
+    getItem: key => values.get(key) ?? null,
+    key: index => [...values.keys()][index] ?? null,
+    removeItem: key => { values.delete(key); },
+    setItem: (key, value) => { values.set(key, value); },
+  };
+}
+
+// A server whose tools/list hands out the next cursor for as long as it is asked
+function createEndlessServer(nextCursor: (page: number) => string, requestedCursors: Array<string | undefined>) {
+  return () => {
+    const server = new Server({ name: 'endless-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+      const cursor = request.params?.cursor;
+      requestedCursors.push(cursor);
+      const page = requestedCursors.length;
+      return {
+        tools: [{ name: `tool_${page}`, inputSchema: { type: 'object' as const } }],
+        nextCursor: nextCursor(page),
+      };
+    });
+    return server;
+  };
+}
+
+async function connectLocal(name: string, localServer: () => Server) {
+  const manager = new MCPConnectionManager(name, { name, url: 'local', localServer });
+  const progress: MCPDiscoveryProgress[] = [];
+  manager.setConnectionUpdateCallback(() => {
+    const { discoveryProgress } = manager.getConnection();
+    if (discoveryProgress) {
+      progress.push({ ...discoveryProgress });
+    }
+  });
+
+  await manager.connect();
+  return { manager, progress };
+}
+
+describe('MCPConnectionManager discovery paging', () => {
+  const managers: MCPConnectionManager[] = [];
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+    vi.stubGlobal('sessionStorage', createStorage());
+    vi.stubGlobal('window', { location: { origin: 'http://localhost' } });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(managers.splice(0).map(manager => manager.disconnect()));
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('follows cursors until every page of the paged server is loaded', async () => {
+    const { manager } = await connectLocal('Paged', createPagedServer);
+    managers.push(manager);
+    const connection = manager.getConnection();
+
+    expect(connection.status).toBe('connected');
+    expect(connection.tools.map(tool => tool.function.name)).toEqual([
+      'Paged__echo',
+      'Paged__reverse',
+      'Paged__uppercase',
+      'Paged__lowercase',
+      'Paged__length',
+    ]);
+    expect(connection.resources).toHaveLength(45);
+    expect(connection.resources[44].uri).toBe('paged://notes/45');
+    expect(connection.prompts.map(prompt => prompt.name)).toEqual(['explain', 'critique', 'translate']);
+    expect(connection.truncatedLists).toEqual([]);
+  });
+
+  it('reports progress for each page after the first and clears it when done', async () => {
+    const { manager, progress } = await connectLocal('Paged', createPagedServer);
+    managers.push(manager);
+
+    // Five tools at two per page and 45 resources at ten per page
+    expect(progress.filter(entry => entry.kind === 'tools')).toEqual([
+      { kind: 'tools', pagesLoaded: 1, itemsLoaded: 2 },
+      { kind: 'tools', pagesLoaded: 2, itemsLoaded: 4 },
+    ]);
+    expect(progress.filter(entry => entry.kind === 'resources').map(entry => entry.itemsLoaded)).toEqual([10, 20, 30, 40]);
+    expect(manager.getConnection().discoveryProgress).toBeUndefined();
+  });
+
+  it('stops at the page cap and marks the list as truncated', async () => {
+    const requestedCursors: Array<string | undefined> = [];
+    const { manager, progress } = await connectLocal(
+      'Endless',
+      createEndlessServer(page => String(page), requestedCursors)
+    );
+    managers.push(manager);
+    const connection = manager.getConnection();
+
+    expect(requestedCursors).toHaveLength(MAX_DISCOVERY_PAGES);
+    expect(requestedCursors.slice(0, 3)).toEqual([undefined, '1', '2']);
+    expect(connection.tools).toHaveLength(MAX_DISCOVERY_PAGES);
+    expect(connection.truncatedLists).toEqual(['tools']);
+    expect(connection.discoveryProgress).toBeUndefined();
+    expect(progress[progress.length - 1]).toEqual({
+      kind: 'tools',
+      pagesLoaded: MAX_DISCOVERY_PAGES - 1,
+      itemsLoaded: MAX_DISCOVERY_PAGES - 1,
+    });
+  });
+
+  it('stops when the server repeats a cursor', async () => {
+    const requestedCursors: Array<string | undefined> = [];
+    const { manager } = await connectLocal('Looping', createEndlessServer(() => 'same', requestedCursors));
+    managers.push(manager);
+    const connection = manager.getConnection();
+
+    expect(requestedCursors).toEqual([undefined, 'same']);
+    expect(connection.tools).toHaveLength(2);
+    expect(connection.truncatedLists).toEqual(['tools']);
+  });
+});
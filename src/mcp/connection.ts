@@ -4,22 +4,82 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
-import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { FetchLike, Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  LoggingMessageNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+  type ServerCapabilities,
+} from '@modelcontextprotocol/sdk/types.js';
 import {
   auth,
+  discoverOAuthServerInfo,
+  refreshAuthorization,
+  selectResourceURL,
+  UnauthorizedError,
   type OAuthClientProvider
 } from '@modelcontextprotocol/sdk/client/auth.js';
+import { OAuthError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
 
 import type {
   MCPConnection,
   MCPServerConfig,
   MCPResource,
+  MCPResourceTemplate,
+  MCPResourceContents,
+  MCPResourceSubscription,
+  MCPResourceUpdateCallback,
+  MCPToolCallOptions,
+  MCPLogCallback,
+  MCPLogLevel,
+  MCPPromptContent,
+  MCPPromptResult,
+  MCPCompletionRequest,
+  MCPSamplingHandler,
+  MCPElicitationHandler,
+  MCPRoot,
   MCPPrompt,
+  MCPDiscoveryKind,
+  MCPTransportDiagnostic,
+  MCPStaticCredentials,
+  MCPAuthorizationInfo,
   MCPError,
 } from '@/types/mcp';
 import type { Tool } from '@/types/inference';
-import { normalizeServerName } from '@/utils/mcpUtils';
+import { normalizeServerName, unprefixToolName } from '@/utils/mcpUtils';
 import { DebugTransport } from './debugTransport';
+import { TransportProbe } from './transportProbe';
+import { redirectForAuthorization, type OAuthRedirectResult } from '@/utils/oauthRedirect';
+
+// Stop following list cursors after this many pages, in case a server never stops paging
+export const MAX_DISCOVERY_PAGES = 100;
+
+// Automatic reconnects double the delay after each failed attempt, up to the cap
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+
+// A session that doesn't answer a ping within the timeout is treated as dropped
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+const HEALTH_CHECK_TIMEOUT_MS = 10_000;
+
+// Refresh access tokens this long before they expire, so requests don't race the expiry
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+// Streamable HTTP session kept across page reloads. Stored in sessionStorage rather than
+// localStorage so two tabs never share, and fight over, the same server session
+interface MCPPersistedSession {
+  sessionId: string;
+  protocolVersion?: string;
+  serverCapabilities?: ServerCapabilities; // Not resent by the server when a session is resumed
+  lastEventId?: string;                    // Last event seen on the standalone GET stream
+  pendingRequests?: Record<string, string>; // Resumption token of each in-flight request's stream
+}
 
 interface MCPOAuthState {
   codeVerifier: string;
@@ -44,6 +104,7 @@ interface OAuthClientInformation {
   registration_access_token?: string;
   registration_client_uri?: string;
   client_secret_expires_at?: number;
+  client_id_issued_at?: number;
 }
 
 interface OAuthTokens {
@@ -52,6 +113,12 @@ interface OAuthTokens {
   refresh_token?: string;
   expires_in?: number;
   scope?: string;
+  issuer?: string;              // Authorization server the tokens were issued by, stamped by the SDK
+}
+
+// expires_in is relative to when the tokens were issued, so the absolute time is stored alongside
+interface StoredOAuthTokens extends OAuthTokens {
+  expires_at?: number;          // Epoch milliseconds
 }
 
 class MCPOAuthProvider implements OAuthClientProvider {
@@ -60,7 +127,10 @@ class MCPOAuthProvider implements OAuthClientProvider {
   private serverUrl: string;
   pendingAuthorizationCode?: string;
   authError?: string;
+  onReauthRequired?: () => void; // The refresh token was rejected; only a new authorization helps
+  onPopupBlocked?: (authorizationUrl: URL) => void;
   private onOAuthComplete?: () => void;
+  private refreshPromise?: Promise<void>;
 
   constructor(connectionId: string, serverName: string, serverUrl: string, onOAuthComplete?: () => void) {
     this.connectionId = connectionId;
@@ -76,7 +146,7 @@ class MCPOAuthProvider implements OAuthClientProvider {
   get clientMetadata(): OAuthClientMetadata {
     return {
       redirect_uris: [this.redirectUrl],
-      grant_types: ['authorization_code'],
+      grant_types: ['authorization_code', 'refresh_token'],
       response_types: ['code'],
       client_name: `MCP Client - ${this.serverName}`,
       token_endpoint_auth_method: 'none', // Public client
@@ -113,13 +183,157 @@ class MCPOAuthProvider implements OAuthClientProvider {
     localStorage.setItem(`mcp_oauth_client_${serverKey}`, JSON.stringify(clientInformation));
   }
 
-  tokens(): OAuthTokens | undefined {
+  // Called before every request, so tokens close to expiry are refreshed before they're sent
+  async tokens(): Promise<OAuthTokens | undefined> {
+    if (this.refreshPromise) {
+      await this.refreshPromise.catch(() => {});
+    }
+
+    const tokens = this.storedTokens();
+    if (tokens?.refresh_token && tokens.expires_at !== undefined
+      && tokens.expires_at - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      try {
+        await this.refreshTokens();
+      } catch (error) {
+        console.warn(`Token refresh for ${this.serverName} failed:`, error);
+      }
+      return this.storedTokens();
+    }
+
+    if (tokens) {
+      localStorage.setItem(`mcp_oauth_last_used_${this.connectionId}`, String(Date.now()));
+    }
+    return tokens;
+  }
+
+  lastUsedAt(): Date | undefined {
+    const stored = localStorage.getItem(`mcp_oauth_last_used_${this.connectionId}`);
+    return stored ? new Date(Number(stored)) : undefined;
+  }
+
+  storedTokens(): StoredOAuthTokens | undefined {
     const stored = localStorage.getItem(`mcp_oauth_tokens_${this.connectionId}`);
     return stored ? JSON.parse(stored) : undefined;
   }
 
   async saveTokens(tokens: OAuthTokens): Promise<void> {
-    localStorage.setItem(`mcp_oauth_tokens_${this.connectionId}`, JSON.stringify(tokens));
+    const stored: StoredOAuthTokens = {
+      ...tokens,
+      ...(tokens.expires_in !== undefined && { expires_at: Date.now() + tokens.expires_in * 1000 }),
+    };
+    localStorage.setItem(`mcp_oauth_tokens_${this.connectionId}`, JSON.stringify(stored));
+  }
+
+  // Single-flight: concurrent callers share one refresh, since a rotated refresh token only works once
+  refreshTokens(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = undefined;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<void> {
+    const tokens = this.storedTokens();
+    const clientInformation = this.clientInformation();
+    if (!tokens?.refresh_token || !clientInformation) {
+      throw new Error('No refresh token available');
+    }
+
+    try {
+      const { authorizationServerUrl, authorizationServerMetadata, resourceMetadata } =
+        await discoverOAuthServerInfo(this.serverUrl);
+      const selectedResource = await selectResourceURL(this.serverUrl, this, resourceMetadata);
+
+      const refreshed = await refreshAuthorization(authorizationServerUrl, {
+        metadata: authorizationServerMetadata,
+        clientInformation,
+        refreshToken: tokens.refresh_token,
+        // Same resource indicator the SDK sent with the original authorization
+        resource: selectedResource && resourceMetadata ? resourceMetadata.resource : selectedResource,
+      });
+      await this.saveTokens({ ...refreshed, issuer: tokens.issuer });
+    } catch (error) {
+      // Server errors and network failures may be temporary, so the tokens are kept for another try
+      if (error instanceof OAuthError && !(error instanceof ServerError)) {
+        localStorage.removeItem(`mcp_oauth_tokens_${this.connectionId}`);
+        this.onReauthRequired?.();
+      }
+      throw error;
+    }
+  }
+
+  // RFC 7009: ask the authorization server to invalidate the tokens. Returns false when it
+  // doesn't advertise a revocation endpoint, leaving the tokens valid until they expire
+  async revokeTokens(): Promise<boolean> {
+    const tokens = this.storedTokens();
+    const clientInformation = this.clientInformation();
+    if (!tokens || !clientInformation) return false;
+
+    const { authorizationServerMetadata } = await discoverOAuthServerInfo(this.serverUrl);
+    // OpenID provider metadata doesn't define the field, so it's only read from OAuth metadata
+    const revocationEndpoint = authorizationServerMetadata && 'revocation_endpoint' in authorizationServerMetadata
+      ? authorizationServerMetadata.revocation_endpoint
+      : undefined;
+    if (!revocationEndpoint) return false;
+
+    // Revoking the refresh token usually takes its access tokens with it, but not every server does
+    const toRevoke: [string | undefined, string][] = [
+      [tokens.refresh_token, 'refresh_token'],
+      [tokens.access_token, 'access_token'],
+    ];
+    for (const [token, tokenTypeHint] of toRevoke) {
+      if (!token) continue;
+
+      const body = new URLSearchParams({ token, token_type_hint: tokenTypeHint, client_id: clientInformation.client_id });
+      if (clientInformation.client_secret) {
+        body.set('client_secret', clientInformation.client_secret);
+      }
+      const response = await fetch(revocationEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body,
+      });
+      // Servers answer 200 even for tokens that were already invalid
+      if (!response.ok) {
+        throw new Error(`Token revocation failed: HTTP ${response.status}`);
+      }
+    }
+    return true;
+  }
+
+  // Wrap a transport's fetch so a 401 for our access token triggers one shared refresh and a retry,
+  // instead of every rejected request starting its own refresh
+  wrapFetch(baseFetch: FetchLike = fetch): FetchLike {
+    return async (url, init) => {
+      const response = await baseFetch(url, init);
+      const sentAuthorization = new Headers(init?.headers).get('Authorization');
+      if (response.status !== 401 || !sentAuthorization?.startsWith('Bearer ') || !this.storedTokens()?.refresh_token) {
+        return response;
+      }
+
+      // Another request may already have replaced the rejected token
+      if (sentAuthorization === `Bearer ${this.storedTokens()?.access_token}`) {
+        try {
+          await this.refreshTokens();
+        } catch {
+          return response;
+        }
+      } else if (this.refreshPromise) {
+        await this.refreshPromise.catch(() => {});
+      }
+
+      const tokens = this.storedTokens();
+      if (!tokens || sentAuthorization === `Bearer ${tokens.access_token}`) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      const headers = new Headers(init?.headers);
+      headers.set('Authorization', `Bearer ${tokens.access_token}`);
+      return baseFetch(url, { ...init, headers });
+    };
   }
 
   async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
@@ -132,7 +346,10 @@ class MCPOAuthProvider implements OAuthClientProvider {
     );
 
     if (!popup) {
-      throw new Error('Failed to open OAuth popup. Please allow popups for this site.');
+      // Navigating away could interrupt a running conversation, so switching to a same-tab
+      // redirect is left to the user (see MCPConnectionManager.continueAuthorizationInTab)
+      this.onPopupBlocked?.(authorizationUrl);
+      throw new Error('Failed to open OAuth popup. Please allow popups for this site, or continue sign-in in this tab.');
     }
 
     // Set up message listener for the authorization code
@@ -195,24 +412,27 @@ class MCPOAuthProvider implements OAuthClientProvider {
   // Method to process authorization code immediately when received from popup
   private async processAuthorizationCode(authorizationCode: string): Promise<void> {
     try {
-      // Call the SDK's auth function with the authorization code to exchange for tokens
-      const result = await auth(this, {
-        serverUrl: this.serverUrl,
-        authorizationCode,
-      });
-
-      if (result === 'AUTHORIZED') {
-        this.notifyOAuthComplete();
-      } else {
-        console.error('❌ OAuth token exchange failed');
-        this.authError = 'Authorization failed';
-      }
+      await this.exchangeAuthorizationCode(authorizationCode);
+      this.notifyOAuthComplete();
     } catch (error) {
       console.error('❌ OAuth token exchange error:', error instanceof Error ? error.message : error);
       this.authError = error instanceof Error ? error.message : 'Authorization failed';
     }
   }
 
+  async exchangeAuthorizationCode(authorizationCode: string): Promise<void> {
+    // Call the SDK's auth function with the authorization code to exchange for tokens
+    const result = await auth(this, {
+      serverUrl: this.serverUrl,
+      authorizationCode,
+    });
+
+    if (result !== 'AUTHORIZED') {
+      console.error('❌ OAuth token exchange failed');
+      throw new Error('Authorization failed');
+    }
+  }
+
   // Method to notify connection manager that OAuth is complete
   private notifyOAuthComplete(): void {
     if (this.onOAuthComplete) {
@@ -232,10 +452,20 @@ export class MCPConnectionManager {
   private connection: MCPConnection;
   private client?: Client;
   private transport?: Transport | StreamableHTTPClientTransport | SSEClientTransport;
+  private httpTransport?: StreamableHTTPClientTransport; // Unwrapped, for session ID and stream resumption
+  private nextRequestKey = 0;
   private reconnectTimeout?: NodeJS.Timeout;
   private healthCheckInterval?: NodeJS.Timeout;
+  private isHealthCheckRunning = false;
+  private isRecovering = false; // Reconnecting automatically after a dropped connection
   private oauthProvider?: MCPOAuthProvider;
   private onConnectionUpdate?: () => void;
+  private samplingHandler?: MCPSamplingHandler;
+  private elicitationHandler?: MCPElicitationHandler;
+  private rootsProvider?: (connection: MCPConnection) => MCPRoot[];
+  private subscriptions = new Map<string, MCPResourceSubscription>();
+  private onResourceUpdated?: MCPResourceUpdateCallback;
+  private onLog?: MCPLogCallback;
   private onMessage?: (connection: MCPConnection, client: any, message: any, direction: 'sent' | 'received', extra?: any) => void;
 
   constructor(id: string, config: MCPServerConfig) {
@@ -246,7 +476,9 @@ export class MCPConnectionManager {
       status: 'disconnected',
       tools: [],
       resources: [],
+      resourceTemplates: [],
       prompts: [],
+      subscriptions: [],
       connectionAttempts: 0,
       config,
     };
@@ -254,6 +486,14 @@ export class MCPConnectionManager {
       // Callback when OAuth completes successfully
       this.handleOAuthSuccess();
     });
+    this.oauthProvider.onReauthRequired = () => {
+      this.connection.reauthRequired = true;
+      this.notifyConnectionUpdate();
+    };
+    this.oauthProvider.onPopupBlocked = (authorizationUrl) => {
+      this.connection.pendingAuthorizationUrl = authorizationUrl.toString();
+      this.notifyConnectionUpdate();
+    };
   }
 
   getConnection(): MCPConnection {
@@ -265,6 +505,69 @@ export class MCPConnectionManager {
     this.onConnectionUpdate = callback;
   }
 
+  // Update configuration that doesn't require reconnecting (e.g. tool policies)
+  updateConfig(config: Partial<MCPServerConfig>): void {
+    this.connection.config = { ...this.connection.config, ...config };
+    this.notifyConnectionUpdate();
+  }
+
+  // Handle sampling/createMessage requests from the server
+  setSamplingHandler(handler: MCPSamplingHandler): void {
+    this.samplingHandler = handler;
+  }
+
+  // Handle elicitation/create requests from the server
+  setElicitationHandler(handler: MCPElicitationHandler): void {
+    this.elicitationHandler = handler;
+  }
+
+  // Answer roots/list requests from the server
+  setRootsProvider(provider: (connection: MCPConnection) => MCPRoot[]): void {
+    this.rootsProvider = provider;
+  }
+
+  // Tell the server to request roots/list again
+  async sendRootsListChanged(): Promise<void> {
+    if (!this.client || !this.rootsProvider || this.connection.status !== 'connected') {
+      return;
+    }
+
+    try {
+      await this.client.sendRootsListChanged();
+    } catch (error) {
+      console.warn(`Failed to send roots list change to ${this.connection.name}:`, error);
+    }
+  }
+
+  // Called after a subscribed resource changed and its contents were re-read
+  setResourceUpdateCallback(callback: MCPResourceUpdateCallback): void {
+    this.onResourceUpdated = callback;
+  }
+
+  // Called for every notifications/message log entry from the server
+  setLogCallback(callback: MCPLogCallback): void {
+    this.onLog = callback;
+  }
+
+  // Ask the server to send logs at this level and above. Remembered for later connections.
+  async setLogLevel(level: MCPLogLevel): Promise<void> {
+    this.updateConfig({ logLevel: level });
+
+    if (!this.client || this.connection.status !== 'connected') {
+      return;
+    }
+
+    if (!this.connection.serverCapabilities?.logging) {
+      throw this.createMCPError('protocol', `${this.connection.name} does not support logging`);
+    }
+
+    try {
+      await this.client.setLoggingLevel(level);
+    } catch (error) {
+      throw this.createMCPError('protocol', `Failed to set log level to ${level}`, error);
+    }
+  }
+
   // Set callback for message monitoring
   setMessageCallback(callback: (connection: MCPConnection, client: any, message: any, direction: 'sent' | 'received', extra?: any) => void): void {
     this.onMessage = callback;
@@ -278,6 +581,9 @@ export class MCPConnectionManager {
   }
 
   async connect(): Promise<void> {
+    this.clearReconnectTimeout();
+    this.connection.nextReconnectAt = undefined;
+    this.connection.pendingAuthorizationUrl = undefined;
     this.connection.status = 'connecting';
     this.connection.error = undefined;
     this.notifyConnectionUpdate();
@@ -285,73 +591,188 @@ export class MCPConnectionManager {
     try {
 
       // Clear any existing connections
-      await this.disconnect();
+      await this.closeSession();
+
+      this.connection.transportDiagnostics = [];
+      const preference = this.connection.config.transport ?? 'auto';
 
       // Check if this is a local server
       if (this.connection.url === 'local') {
-        await this.tryInMemory();
-        this.connection.transport = 'inmemory';
+        await this.attemptTransport('inmemory', () => this.tryInMemory());
+      } else if (preference !== 'sse' && await this.resumePersistedSession()) {
+        // Rejoined the session from before the page reload
+      } else if (preference === 'sse') {
+        await this.attemptTransport('sse', fetch => this.trySSE(fetch));
+      } else if (preference === 'streamable-http') {
+        await this.attemptTransport('streamable-http', fetch => this.tryStreamableHttp(fetch));
       } else {
         try {
-          await this.tryStreamableHttp();
-          this.connection.transport = 'streamable-http';
-        } catch (error) {
-          // TODO: jerome - if this is a TypeError: failed to fetch, then there is likely a CORS (or 
-          // Access-Control-Expose-Headers) issue with the server.
-          await this.trySSE();
-          this.connection.transport = 'sse';
+          await this.attemptTransport('streamable-http', fetch => this.tryStreamableHttp(fetch));
+        } catch {
+          // The Streamable HTTP failure stays visible in transportDiagnostics
+          await this.attemptTransport('sse', fetch => this.trySSE(fetch));
         }
       }
 
       // Initialize client capabilities
       await this.initializeCapabilities();
+      this.persistSession();
+
+      // Subscriptions don't survive a new session
+      await this.resubscribeResources();
+
+      if (this.connection.config.logLevel && this.connection.serverCapabilities?.logging) {
+        try {
+          await this.client?.setLoggingLevel(this.connection.config.logLevel);
+        } catch (error) {
+          console.warn(`Failed to restore log level for ${this.connection.name}:`, error);
+        }
+      }
 
       this.connection.status = 'connected';
       this.connection.lastConnected = new Date();
       this.connection.connectionAttempts = 0;
+      this.isRecovering = false;
+      this.startHealthCheck();
       this.notifyConnectionUpdate();
 
     } catch (error) {
       this.connection.status = 'failed';
       this.connection.error = error instanceof Error ? error.message : 'Unknown connection error';
       this.connection.connectionAttempts++;
-      this.notifyConnectionUpdate();
+
+      if (this.isRecovering) {
+        this.scheduleReconnect(error);
+      } else {
+        this.notifyConnectionUpdate();
+      }
 
       throw this.createMCPError('connection', this.connection.error, error);
     }
   }
 
   async disconnect(): Promise<void> {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = undefined;
-    }
+    // An explicit disconnect also cancels any automatic reconnect
+    this.isRecovering = false;
+    this.clearReconnectTimeout();
+    this.connection.nextReconnectAt = undefined;
 
-    if (this.healthCheckInterval) {
-      clearInterval(this.healthCheckInterval);
-      this.healthCheckInterval = undefined;
-    }
+    await this.closeSession();
+    this.clearPersistedSession();
+    this.connection.status = 'disconnected';
+  }
 
-    if (this.client) {
+  // Close the current client and transport without changing the connection status
+  private async closeSession(): Promise<void> {
+    this.stopHealthCheck();
+
+    // Forget the session first so its close events aren't mistaken for a dropped connection
+    const client = this.client;
+    const transport = this.transport;
+    this.client = undefined;
+    this.transport = undefined;
+    this.httpTransport = undefined;
+    this.connection.client = undefined;
+
+    if (client) {
       try {
-        await this.client.close();
+        await client.close();
       } catch (error) {
         // Ignore disconnect errors
       }
-      this.client = undefined;
     }
 
-    if (this.transport) {
+    if (transport) {
       try {
-        await this.transport.close();
+        await transport.close();
       } catch (error) {
         // Ignore transport close errors
       }
-      this.transport = undefined;
     }
+  }
 
-    this.connection.status = 'disconnected';
-    this.connection.client = undefined;
+  private clearReconnectTimeout(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+  }
+
+  // Called when the transport closes, errors fatally or stops answering pings
+  private handleConnectionLost(client: Client, reason: string): void {
+    if (client !== this.client || this.connection.status !== 'connected') {
+      return;
+    }
+
+    console.warn(`Lost connection to ${this.connection.name}: ${reason}`);
+    this.connection.status = 'failed';
+    this.connection.error = reason;
+    this.isRecovering = true;
+
+    void this.closeSession();
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(error?: unknown): void {
+    const maxAttempts = this.connection.config.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    const attempt = this.connection.connectionAttempts;
+
+    // Authorization needs the user, so retrying on a timer won't help
+    if (attempt >= maxAttempts || error instanceof UnauthorizedError) {
+      this.isRecovering = false;
+      this.connection.nextReconnectAt = undefined;
+      this.notifyConnectionUpdate();
+      return;
+    }
+
+    // Randomize within the upper half of the backoff so clients don't retry in lockstep
+    const backoff = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+
+    this.connection.nextReconnectAt = new Date(Date.now() + delay);
+    this.notifyConnectionUpdate();
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = undefined;
+      // A failed attempt schedules the next one from connect()
+      this.connect().catch(() => {});
+    }, delay);
+  }
+
+  private startHealthCheck(): void {
+    this.stopHealthCheck();
+
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+
+    this.healthCheckInterval = setInterval(() => {
+      void this.checkHealth(client);
+    }, HEALTH_CHECK_INTERVAL_MS);
+  }
+
+  private stopHealthCheck(): void {
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = undefined;
+    }
+  }
+
+  // Ping the server and treat a failure as a dropped connection
+  private async checkHealth(client: Client): Promise<void> {
+    if (this.isHealthCheckRunning || client !== this.client) {
+      return;
+    }
+
+    this.isHealthCheckRunning = true;
+    try {
+      await client.ping({ timeout: HEALTH_CHECK_TIMEOUT_MS });
+    } catch (error) {
+      this.handleConnectionLost(client, `Health check failed: ${error instanceof Error ? error.message : 'no response'}`);
+    } finally {
+      this.isHealthCheckRunning = false;
+    }
   }
 
   // Method to handle OAuth callback with authorization code
@@ -381,12 +802,48 @@ export class MCPConnectionManager {
     }
   }
 
+  // Continue an authorization whose popup was blocked as a full-page redirect in this tab
+  continueAuthorizationInTab(): void {
+    const authorizationUrl = this.connection.pendingAuthorizationUrl;
+    if (!authorizationUrl) {
+      throw new Error('No authorization is waiting to continue');
+    }
+    redirectForAuthorization('mcp', authorizationUrl);
+  }
+
+  // Whether an OAuth state parameter was issued for this connection
+  ownsAuthorizationState(state?: string): boolean {
+    return !!state?.startsWith(`mcp:${this.connection.id}.`);
+  }
+
+  // Finish an authorization that returned through a same-tab redirect, then connect
+  async completeAuthorizationRedirect(result: OAuthRedirectResult): Promise<void> {
+    if (!this.oauthProvider) {
+      throw new Error('OAuth provider not initialized');
+    }
+
+    try {
+      if (result.error || !result.code) {
+        throw new Error(result.error || 'No authorization code received');
+      }
+      await this.oauthProvider.exchangeAuthorizationCode(result.code);
+    } catch (error) {
+      this.connection.status = 'failed';
+      this.connection.error = `Authorization failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      this.notifyConnectionUpdate();
+      throw this.createMCPError('auth', this.connection.error, error);
+    }
+
+    await this.handleOAuthSuccess();
+  }
+
   // Method to clear stored OAuth data
   clearOAuthData(): void {
-    if (this.connection.authType === 'oauth' && this.oauthProvider) {
+    if (this.oauthProvider && !this.usesStaticCredentials()) {
       // Clear connection-specific data
       localStorage.removeItem(`mcp_oauth_tokens_${this.connection.id}`);
       localStorage.removeItem(`mcp_oauth_state_${this.connection.id}`);
+      localStorage.removeItem(`mcp_oauth_last_used_${this.connection.id}`);
 
       // Note: We intentionally don't clear client information here since it's 
       // shared across connections to the same server. Use clearSharedClientData() 
@@ -394,20 +851,112 @@ export class MCPConnectionManager {
     }
   }
 
+  // Static credentials are stored under their own key so mcp_connections never holds secrets
+  setStaticCredentials(credentials: MCPStaticCredentials): void {
+    localStorage.setItem(`mcp_static_credentials_${this.connection.id}`, JSON.stringify(credentials));
+  }
+
+  clearStaticCredentials(): void {
+    localStorage.removeItem(`mcp_static_credentials_${this.connection.id}`);
+  }
+
+  private usesStaticCredentials(): boolean {
+    return this.connection.config.authType === 'bearer' || this.connection.config.authType === 'headers';
+  }
+
+  // OAuth connections refresh their token and retry when a request comes back 401
+  private transportFetch(fetch?: FetchLike): FetchLike | undefined {
+    return this.usesStaticCredentials() || !this.oauthProvider ? fetch : this.oauthProvider.wrapFetch(fetch);
+  }
+
+  // Headers added to every HTTP request for bearer/headers auth
+  private getRequestInit(): RequestInit | undefined {
+    if (!this.usesStaticCredentials()) return undefined;
+
+    const stored = localStorage.getItem(`mcp_static_credentials_${this.connection.id}`);
+    const credentials: MCPStaticCredentials = stored ? JSON.parse(stored) : {};
+
+    if (this.connection.config.authType === 'bearer') {
+      return credentials.bearerToken
+        ? { headers: { Authorization: `Bearer ${credentials.bearerToken}` } }
+        : undefined;
+    }
+    return { headers: { ...credentials.headers } };
+  }
+
   // Method to clear shared client data for this server (affects all connections to the same server)
   clearSharedClientData(): void {
-    if (this.connection.authType === 'oauth' && this.oauthProvider) {
+    if (this.oauthProvider && !this.usesStaticCredentials()) {
       const serverKey = this.oauthProvider.getServerKey();
       localStorage.removeItem(`mcp_oauth_client_${serverKey}`);
     }
   }
 
+  // OAuth state for the Authorizations panel; undefined when nothing is stored
+  getAuthorizationInfo(): MCPAuthorizationInfo | undefined {
+    if (!this.oauthProvider || this.usesStaticCredentials() || this.connection.url === 'local') {
+      return undefined;
+    }
+
+    const tokens = this.oauthProvider.storedTokens();
+    const clientInformation = this.oauthProvider.clientInformation();
+    const authorizationPending = localStorage.getItem(`mcp_oauth_state_${this.connection.id}`) !== null;
+    if (!tokens && !clientInformation && !authorizationPending) {
+      return undefined;
+    }
+
+    return {
+      connectionId: this.connection.id,
+      serverName: this.connection.name,
+      serverUrl: this.connection.url,
+      clientId: clientInformation?.client_id,
+      clientIdIssuedAt: clientInformation?.client_id_issued_at
+        ? new Date(clientInformation.client_id_issued_at * 1000)
+        : undefined,
+      scope: tokens?.scope,
+      expiresAt: tokens?.expires_at !== undefined ? new Date(tokens.expires_at) : undefined,
+      lastUsedAt: tokens ? this.oauthProvider.lastUsedAt() : undefined,
+      hasAccessToken: !!tokens,
+      hasRefreshToken: !!tokens?.refresh_token,
+      authorizationPending,
+    };
+  }
+
+  // Revoke the tokens on the authorization server (if it supports RFC 7009), then drop them
+  // locally and disconnect. Local data is removed even when revocation fails.
+  async revokeAuthorization(): Promise<boolean> {
+    try {
+      return await this.oauthProvider?.revokeTokens() ?? false;
+    } finally {
+      this.clearOAuthData();
+      await this.disconnect();
+      this.notifyConnectionUpdate();
+    }
+  }
+
+  // Start over with a fresh authorization, reusing the client registration
+  async reauthorize(): Promise<void> {
+    this.clearOAuthData();
+    this.connection.reauthRequired = false;
+    try {
+      await this.reconnect();
+    } catch (error) {
+      // Expected: without tokens the server answers 401 and the authorization window takes over
+      if ((error as MCPError)?.details instanceof UnauthorizedError) return;
+      throw error;
+    }
+  }
+
+  // Manual reconnects start a fresh attempt budget
   async reconnect(): Promise<void> {
+    this.isRecovering = false;
+    this.connection.connectionAttempts = 0;
     await this.connect();
   }
 
   // Handle successful OAuth completion
   private async handleOAuthSuccess(): Promise<void> {
+    this.connection.reauthRequired = false;
 
     try {
       // Attempt to connect now that we have valid tokens
@@ -418,11 +967,49 @@ export class MCPConnectionManager {
   }
 
 
-  private async tryStreamableHttp(): Promise<void> {
+  // Run one transport attempt and record its outcome in transportDiagnostics
+  private async attemptTransport(
+    transport: MCPTransportDiagnostic['transport'],
+    connectWith: (fetch?: FetchLike) => Promise<void>,
+    resumedSession = false
+  ): Promise<void> {
+    const probe = transport === 'inmemory' ? undefined : new TransportProbe(transport, new URL(this.connection.url));
+    const startedAt = new Date();
+    const record = (outcome: Omit<MCPTransportDiagnostic, 'transport' | 'startedAt' | 'durationMs'>) => {
+      this.connection.transportDiagnostics = [
+        ...(this.connection.transportDiagnostics || []),
+        {
+          transport,
+          startedAt,
+          durationMs: Date.now() - startedAt.getTime(),
+          ...(resumedSession && { resumedSession }),
+          ...outcome,
+        },
+      ];
+    };
+
+    try {
+      await connectWith(probe?.fetch);
+      record({ succeeded: true });
+      this.connection.transport = transport;
+    } catch (error) {
+      record({
+        succeeded: false,
+        ...(probe ? probe.diagnose(error) : { error: error instanceof Error ? error.message : String(error) }),
+      });
+      throw error;
+    }
+  }
+
+  private async tryStreamableHttp(fetch?: FetchLike): Promise<void> {
     try {
       const transport = new StreamableHTTPClientTransport(new URL(this.connection.url), {
-        authProvider: this.oauthProvider
+        // A 401 with static credentials is a bad key, not a reason to start OAuth
+        authProvider: this.usesStaticCredentials() ? undefined : this.oauthProvider,
+        requestInit: this.getRequestInit(),
+        fetch: this.transportFetch(fetch)
       });
+      this.httpTransport = transport;
       await this.initializeClient(transport);
     } catch (error) {
       console.log('StreamableHTTP connection failed:', error);
@@ -430,10 +1017,114 @@ export class MCPConnectionManager {
     }
   }
 
-  private async trySSE(): Promise<void> {
+  // Returns false, leaving no session behind, when there is nothing to resume or the server rejects it
+  private async resumePersistedSession(): Promise<boolean> {
+    const session = this.loadPersistedSession();
+    if (!session) return false;
+
+    try {
+      await this.attemptTransport('streamable-http', fetch => this.tryResumeSession(session, fetch), true);
+      return true;
+    } catch (error) {
+      console.log('Session resumption failed, starting a new session:', error);
+      this.clearPersistedSession();
+      await this.closeSession();
+      return false;
+    }
+  }
+
+  private async tryResumeSession(session: MCPPersistedSession, fetch?: FetchLike): Promise<void> {
+    const transport = new StreamableHTTPClientTransport(new URL(this.connection.url), {
+      authProvider: this.usesStaticCredentials() ? undefined : this.oauthProvider,
+      requestInit: this.getRequestInit(),
+      sessionId: session.sessionId,
+      fetch: this.transportFetch(fetch)
+    });
+    if (session.protocolVersion) {
+      transport.setProtocolVersion(session.protocolVersion);
+    }
+    this.httpTransport = transport;
+
+    // The client skips initialize when its transport already has a session ID
+    await this.initializeClient(transport);
+
+    // Servers answer 404 for sessions they no longer know
+    await this.client!.ping();
+    this.connection.serverCapabilities = session.serverCapabilities;
+
+    // Reopen the standalone stream, replaying whatever was sent while the page was gone
+    await transport.resumeStream(session.lastEventId ?? '', {
+      onresumptiontoken: token => this.updatePersistedSession({ lastEventId: token })
+    });
+
+    // The callers of in-flight requests died with the page, but replaying their streams
+    // still delivers late progress and results to the message monitor
+    for (const token of Object.values(session.pendingRequests ?? {})) {
+      transport.resumeStream(token).catch(error => {
+        console.warn(`Failed to resume request stream for ${this.connection.name}:`, error);
+      });
+    }
+  }
+
+  private get sessionStorageKey(): string {
+    return `mcp_session_${this.connection.id}`;
+  }
+
+  private loadPersistedSession(): MCPPersistedSession | undefined {
+    const stored = sessionStorage.getItem(this.sessionStorageKey);
+    return stored ? JSON.parse(stored) : undefined;
+  }
+
+  private updatePersistedSession(update: Partial<MCPPersistedSession>): void {
+    const session = this.loadPersistedSession();
+    if (session) {
+      sessionStorage.setItem(this.sessionStorageKey, JSON.stringify({ ...session, ...update }));
+    }
+  }
+
+  private clearPersistedSession(): void {
+    sessionStorage.removeItem(this.sessionStorageKey);
+  }
+
+  // Only stateful Streamable HTTP servers hand out a session ID worth keeping
+  private persistSession(): void {
+    const sessionId = this.httpTransport?.sessionId;
+    if (!sessionId) {
+      this.clearPersistedSession();
+      return;
+    }
+
+    const previous = this.loadPersistedSession();
+    const session: MCPPersistedSession = {
+      sessionId,
+      protocolVersion: this.httpTransport?.protocolVersion,
+      serverCapabilities: this.connection.serverCapabilities,
+      lastEventId: previous?.sessionId === sessionId ? previous.lastEventId : undefined,
+    };
+    sessionStorage.setItem(this.sessionStorageKey, JSON.stringify(session));
+  }
+
+  // Record (or, with no token, forget) where an in-flight request's stream can be resumed from
+  private trackResumptionToken(requestKey: string, token?: string): void {
+    const session = this.loadPersistedSession();
+    if (!session) return;
+
+    const pendingRequests = { ...session.pendingRequests };
+    if (token) {
+      pendingRequests[requestKey] = token;
+    } else {
+      delete pendingRequests[requestKey];
+    }
+    this.updatePersistedSession({ pendingRequests });
+  }
+
+  private async trySSE(fetch?: FetchLike): Promise<void> {
     try {
       const transport = new SSEClientTransport(new URL(this.connection.url), {
-        authProvider: this.oauthProvider
+        // A 401 with static credentials is a bad key, not a reason to start OAuth
+        authProvider: this.usesStaticCredentials() ? undefined : this.oauthProvider,
+        requestInit: this.getRequestInit(),
+        fetch: this.transportFetch(fetch)
       });
       await this.initializeClient(transport);
     } catch (error) {
@@ -474,10 +1165,53 @@ export class MCPConnectionManager {
           version: '1.0.0',
         },
         {
-          capabilities: {},
+          capabilities: {
+            ...(this.samplingHandler && { sampling: {} }),
+            ...(this.elicitationHandler && { elicitation: { form: {} } }),
+            ...(this.rootsProvider && { roots: { listChanged: true } }),
+          },
         }
       );
 
+      if (this.samplingHandler) {
+        const samplingHandler = this.samplingHandler;
+        this.client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+          samplingHandler(this.getConnection(), request.params, extra.signal)
+        );
+      }
+
+      if (this.elicitationHandler) {
+        const elicitationHandler = this.elicitationHandler;
+        this.client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+          elicitationHandler(this.getConnection(), request.params, extra.signal)
+        );
+      }
+
+      if (this.rootsProvider) {
+        const rootsProvider = this.rootsProvider;
+        this.client.setRequestHandler(ListRootsRequestSchema, () => ({
+          roots: rootsProvider(this.getConnection()),
+        }));
+      }
+
+      this.setupListChangedHandlers(this.client);
+      this.setupResourceUpdateHandler(this.client);
+
+      const client = this.client;
+      client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        if (client === this.client && this.onLog) {
+          this.onLog(this.getConnection(), notification.params);
+        }
+      });
+
+      // A closed transport means the session is gone. Errors may be transient, so confirm with a ping.
+      debugTransport.onclose_ = () => {
+        this.handleConnectionLost(client, 'Connection closed');
+      };
+      debugTransport.onerror_ = () => {
+        void this.checkHealth(client);
+      };
+
       // Set up message callbacks to broadcast to UI after client is created
       debugTransport.onsendmessage_ = async (message, options) => {
         if (this.onMessage && this.client) {
@@ -504,6 +1238,9 @@ export class MCPConnectionManager {
     }
 
     try {
+      // A resumed session has no initialize result; its capabilities were restored with it
+      this.connection.serverCapabilities = this.client.getServerCapabilities() ?? this.connection.serverCapabilities;
+
       // Discover tools
       this.connection.tools = await this.discoverTools();
 
@@ -515,6 +1252,14 @@ export class MCPConnectionManager {
         this.connection.resources = [];
       }
 
+      // Discover resource templates (if supported)
+      try {
+        this.connection.resourceTemplates = await this.discoverResourceTemplates();
+      } catch (error) {
+        // Resource templates not supported by this server
+        this.connection.resourceTemplates = [];
+      }
+
       // Discover prompts (if supported)
       try {
         this.connection.prompts = await this.discoverPrompts();
@@ -528,24 +1273,232 @@ export class MCPConnectionManager {
     }
   }
 
-  async discoverTools(): Promise<Tool[]> {
+  // Re-run discovery when the server says one of its lists changed
+  private setupListChangedHandlers(client: Client): void {
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+      this.refreshCapability(client, 'tools', async () => {
+        this.connection.tools = await this.discoverTools();
+      })
+    );
+
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+      this.refreshCapability(client, 'resources', async () => {
+        const resources = await this.discoverResources();
+        let resourceTemplates: MCPResourceTemplate[];
+        try {
+          resourceTemplates = await this.discoverResourceTemplates();
+        } catch (error) {
+          // Resource templates not supported by this server
+          resourceTemplates = [];
+        }
+        this.connection.resources = resources;
+        this.connection.resourceTemplates = resourceTemplates;
+      })
+    );
+
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+      this.refreshCapability(client, 'prompts', async () => {
+        this.connection.prompts = await this.discoverPrompts();
+      })
+    );
+  }
+
+  private async refreshCapability(client: Client, kind: string, refresh: () => Promise<void>): Promise<void> {
+    // Ignore notifications that arrive while connecting or from a client that has since been replaced
+    if (client !== this.client || this.connection.status !== 'connected') {
+      return;
+    }
+
+    try {
+      await refresh();
+      this.notifyConnectionUpdate();
+    } catch (error) {
+      console.warn(`Failed to refresh ${kind} for ${this.connection.name}:`, error);
+    }
+  }
+
+  // Re-read a subscribed resource when the server says it changed
+  private setupResourceUpdateHandler(client: Client): void {
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      const { uri } = notification.params;
+      if (client !== this.client || !this.subscriptions.has(uri)) {
+        return;
+      }
+
+      let contents: MCPResourceContents[] | undefined;
+      try {
+        contents = await this.readResource(uri);
+      } catch (error) {
+        console.warn(`Failed to read updated resource ${uri} from ${this.connection.name}:`, error);
+      }
+
+      // The user may have unsubscribed while the read was in flight
+      const subscription = this.subscriptions.get(uri);
+      if (!subscription) {
+        return;
+      }
+
+      const updated: MCPResourceSubscription = {
+        ...subscription,
+        contents: contents ?? subscription.contents,
+        updatedAt: new Date(),
+        hasUnseenUpdate: true,
+      };
+      this.setSubscription(updated);
+
+      if (this.onResourceUpdated) {
+        this.onResourceUpdated(this.getConnection(), updated);
+      }
+    });
+  }
+
+  private async resubscribeResources(): Promise<void> {
+    if (!this.client || this.subscriptions.size === 0) {
+      return;
+    }
+
+    if (!this.connection.serverCapabilities?.resources?.subscribe) {
+      console.warn(`${this.connection.name} no longer supports resource subscriptions`);
+      return;
+    }
+
+    for (const uri of this.subscriptions.keys()) {
+      try {
+        await this.client.subscribeResource({ uri });
+      } catch (error) {
+        console.warn(`Failed to re-subscribe to ${uri} on ${this.connection.name}:`, error);
+      }
+    }
+  }
+
+  private setSubscription(subscription: MCPResourceSubscription): void {
+    this.subscriptions.set(subscription.uri, subscription);
+    this.connection.subscriptions = Array.from(this.subscriptions.values());
+    this.notifyConnectionUpdate();
+  }
+
+  async subscribeResource(uri: string): Promise<void> {
     if (!this.client) {
       throw new Error('Client not connected');
     }
 
+    if (!this.connection.serverCapabilities?.resources?.subscribe) {
+      throw this.createMCPError('protocol', `${this.connection.name} does not support resource subscriptions`);
+    }
+
+    try {
+      await this.client.subscribeResource({ uri });
+    } catch (error) {
+      throw this.createMCPError('protocol', `Failed to subscribe to resource ${uri}`, error);
+    }
+
+    // Cache the current contents so the resources panel can show them alongside later updates
+    let contents: MCPResourceContents[] | undefined;
     try {
-      const result = await this.client.listTools();
+      contents = await this.readResource(uri);
+    } catch (error) {
+      console.warn(`Failed to read subscribed resource ${uri}:`, error);
+    }
+
+    this.setSubscription({ uri, contents, hasUnseenUpdate: false });
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    if (!this.subscriptions.delete(uri)) {
+      return;
+    }
+    this.connection.subscriptions = Array.from(this.subscriptions.values());
+    this.notifyConnectionUpdate();
+
+    if (this.client && this.connection.status === 'connected') {
+      try {
+        await this.client.unsubscribeResource({ uri });
+      } catch (error) {
+        throw this.createMCPError('protocol', `Failed to unsubscribe from resource ${uri}`, error);
+      }
+    }
+  }
+
+  markResourceUpdateSeen(uri: string): void {
+    const subscription = this.subscriptions.get(uri);
+    if (subscription?.hasUnseenUpdate) {
+      this.setSubscription({ ...subscription, hasUnseenUpdate: false });
+    }
+  }
+
+  // Follow nextCursor until the list is complete, reporting progress on the connection
+  private async listAllPages<T>(
+    kind: MCPDiscoveryKind,
+    fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    const seenCursors = new Set<string>();
+    let cursor: string | undefined;
+    let truncated = false;
+
+    try {
+      for (let page = 1; ; page++) {
+        const result = await fetchPage(cursor);
+        items.push(...result.items);
+        cursor = result.nextCursor;
+
+        if (!cursor) {
+          break;
+        }
+
+        // A repeated cursor would loop forever, so treat it like hitting the cap
+        if (page >= MAX_DISCOVERY_PAGES || seenCursors.has(cursor)) {
+          console.warn(`Stopped loading ${kind} from ${this.connection.name} after ${page} pages (${items.length} items)`);
+          truncated = true;
+          break;
+        }
+        seenCursors.add(cursor);
+
+        this.connection.discoveryProgress = { kind, pagesLoaded: page, itemsLoaded: items.length };
+        this.notifyConnectionUpdate();
+      }
+    } finally {
+      if (this.connection.discoveryProgress?.kind === kind) {
+        this.connection.discoveryProgress = undefined;
+      }
+    }
+
+    const truncatedLists = (this.connection.truncatedLists || []).filter(other => other !== kind);
+    this.connection.truncatedLists = truncated ? [...truncatedLists, kind] : truncatedLists;
+
+    return items;
+  }
+
+  async discoverTools(): Promise<Tool[]> {
+    const client = this.client;
+    if (!client) {
+      throw new Error('Client not connected');
+    }
+
+    try {
+      const tools = await this.listAllPages('tools', async (cursor) => {
+        const result = await client.listTools(cursor ? { cursor } : undefined);
+        return { items: result.tools, nextCursor: result.nextCursor };
+      });
 
       // Transform MCP tools to our Tool interface with name prefixing
       // Use double underscore instead of dot to comply with OpenRouter API requirements
       const normalizedServerName = normalizeServerName(this.connection.name);
-      return result.tools.map(tool => ({
+      return tools.map(tool => ({
         type: 'function' as const,
         function: {
           name: `${normalizedServerName}__${tool.name}`,
           description: `[${this.connection.name}] ${tool.description || ''}`,
           parameters: tool.inputSchema || {},
         },
+        // Newer servers send title at the top level, older ones inside annotations
+        title: (typeof tool.title === 'string' ? tool.title : undefined) ?? tool.annotations?.title,
+        annotations: tool.annotations && {
+          readOnlyHint: tool.annotations.readOnlyHint,
+          destructiveHint: tool.annotations.destructiveHint,
+          idempotentHint: tool.annotations.idempotentHint,
+          openWorldHint: tool.annotations.openWorldHint,
+        },
       }));
     } catch (error) {
       throw this.createMCPError('protocol', 'Failed to discover tools', error);
@@ -553,14 +1506,18 @@ export class MCPConnectionManager {
   }
 
   async discoverResources(): Promise<MCPResource[]> {
-    if (!this.client) {
+    const client = this.client;
+    if (!client) {
       throw new Error('Client not connected');
     }
 
     try {
-      const result = await this.client.listResources();
+      const resources = await this.listAllPages('resources', async (cursor) => {
+        const result = await client.listResources(cursor ? { cursor } : undefined);
+        return { items: result.resources, nextCursor: result.nextCursor };
+      });
 
-      return result.resources.map(resource => ({
+      return resources.map(resource => ({
         uri: resource.uri,
         name: resource.name,
         description: resource.description,
@@ -571,15 +1528,42 @@ export class MCPConnectionManager {
     }
   }
 
+  async discoverResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    const client = this.client;
+    if (!client) {
+      throw new Error('Client not connected');
+    }
+
+    try {
+      const resourceTemplates = await this.listAllPages('resourceTemplates', async (cursor) => {
+        const result = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+        return { items: result.resourceTemplates, nextCursor: result.nextCursor };
+      });
+
+      return resourceTemplates.map(template => ({
+        uriTemplate: template.uriTemplate,
+        name: template.name,
+        description: template.description,
+        mimeType: template.mimeType,
+      }));
+    } catch (error) {
+      throw this.createMCPError('protocol', 'Failed to discover resource templates', error);
+    }
+  }
+
   async discoverPrompts(): Promise<MCPPrompt[]> {
-    if (!this.client) {
+    const client = this.client;
+    if (!client) {
       throw new Error('Client not connected');
     }
 
     try {
-      const result = await this.client.listPrompts();
+      const prompts = await this.listAllPages('prompts', async (cursor) => {
+        const result = await client.listPrompts(cursor ? { cursor } : undefined);
+        return { items: result.prompts, nextCursor: result.nextCursor };
+      });
 
-      return result.prompts.map(prompt => ({
+      return prompts.map(prompt => ({
         name: prompt.name,
         description: prompt.description,
         arguments: prompt.arguments,
@@ -589,26 +1573,126 @@ export class MCPConnectionManager {
     }
   }
 
-  async callTool(toolName: string, args: any): Promise<any> {
+  async callTool(toolName: string, args: any, options: MCPToolCallOptions = {}): Promise<any> {
     if (!this.client) {
       throw new Error('Client not connected');
     }
 
     // Remove the server prefix from the tool name (using double underscore separator)
-    const normalizedServerName = normalizeServerName(this.connection.name);
-    const unprefixedName = toolName.startsWith(`${normalizedServerName}__`)
-      ? toolName.slice(normalizedServerName.length + 2)
-      : toolName;
+    const unprefixedName = unprefixToolName(this.connection.name, toolName);
+    const requestKey = String(this.nextRequestKey++);
 
     try {
-      const result = await this.client.callTool({
-        name: unprefixedName,
-        arguments: args,
-      });
+      const result = await this.client.callTool(
+        {
+          name: unprefixedName,
+          arguments: args,
+        },
+        undefined,
+        {
+          signal: options.signal,
+          onprogress: options.onProgress,
+          // Servers that report progress are still working, so don't time them out
+          resetTimeoutOnProgress: !!options.onProgress,
+          onresumptiontoken: token => this.trackResumptionToken(requestKey, token),
+        }
+      );
 
       return result;
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw this.createMCPError('tool_execution', `Tool call ${unprefixedName} was cancelled`, error);
+      }
       throw this.createMCPError('tool_execution', `Failed to call tool ${unprefixedName}`, error);
+    } finally {
+      this.trackResumptionToken(requestKey);
+    }
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    if (!this.client) {
+      throw new Error('Client not connected');
+    }
+
+    try {
+      const result = await this.client.readResource({ uri });
+
+      return result.contents.map(item => ({
+        uri: item.uri,
+        mimeType: item.mimeType,
+        text: 'text' in item && typeof item.text === 'string' ? item.text : undefined,
+        blob: 'blob' in item && typeof item.blob === 'string' ? item.blob : undefined,
+      }));
+    } catch (error) {
+      throw this.createMCPError('protocol', `Failed to read resource ${uri}`, error);
+    }
+  }
+
+  async getPrompt(name: string, args: Record<string, string>): Promise<MCPPromptResult> {
+    if (!this.client) {
+      throw new Error('Client not connected');
+    }
+
+    try {
+      const result = await this.client.getPrompt({ name, arguments: args });
+
+      return {
+        description: result.description,
+        messages: result.messages.map(message => ({
+          role: message.role,
+          content: this.parsePromptContent(message.content),
+        })),
+      };
+    } catch (error) {
+      throw this.createMCPError('protocol', `Failed to get prompt ${name}`, error);
+    }
+  }
+
+  async complete(request: MCPCompletionRequest, signal?: AbortSignal): Promise<string[]> {
+    if (!this.client) {
+      throw new Error('Client not connected');
+    }
+
+    if (!this.connection.serverCapabilities?.completions) {
+      return [];
+    }
+
+    try {
+      const result = await this.client.complete(
+        {
+          ref: request.ref,
+          argument: request.argument,
+          ...(request.context && { context: { arguments: request.context } }),
+        },
+        { signal }
+      );
+
+      return result.completion.values;
+    } catch (error) {
+      throw this.createMCPError('protocol', `Failed to complete ${request.argument.name}`, error);
+    }
+  }
+
+  private parsePromptContent(content: any): MCPPromptContent {
+    switch (content.type) {
+      case 'text':
+        return { type: 'text', text: content.text };
+      case 'image':
+      case 'audio':
+        return { type: content.type, data: content.data, mimeType: content.mimeType };
+      case 'resource':
+        return {
+          type: 'resource',
+          resource: {
+            uri: content.resource.uri,
+            mimeType: content.resource.mimeType,
+            text: typeof content.resource.text === 'string' ? content.resource.text : undefined,
+            blob: typeof content.resource.blob === 'string' ? content.resource.blob : undefined,
+          },
+        };
+      default:
+        // Content types newer than this client are shown as raw JSON
+        return { type: 'text', text: JSON.stringify(content) };
     }
   }
 
@@ -56,6 +56,15 @@ export class DebugTransport implements Transport {
         await this.innerTransport.close();
     }
 
+    // The client reads the session ID to decide whether to initialize, and sets the
+    // negotiated protocol version for HTTP headers, so both must reach the inner transport
+    get sessionId(): string | undefined {
+        return this.innerTransport.sessionId;
+    }
+    setProtocolVersion(version: string): void {
+        this.innerTransport.setProtocolVersion?.(version);
+    }
+
     // These are taken over by the MCP client
     onclose?: () => void;
     onerror?: (error: Error) => void;
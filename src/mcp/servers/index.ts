@@ -1,4 +1,5 @@
 import { createServer as createTestServer } from "./test";
+import { createServer as createPagedServer } from "./paged";
 import type { MCPServerConfig } from "@/types/mcp";
 
 export const availableServers: MCPServerConfig[] = [
@@ -6,5 +7,10 @@ export const availableServers: MCPServerConfig[] = [
         name: "In-Memory Test Server",
         url: "local",
         localServer: createTestServer
+    },
+    {
+        name: "In-Memory Paged Server",
+        url: "local",
+        localServer: createPagedServer
     }
-];
\ No newline at end of file
+];
@@ -0,0 +1,118 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+    CallToolRequestSchema,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    ListResourcesRequestSchema,
+    ListToolsRequestSchema,
+    McpError,
+    ErrorCode,
+    ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Small pages so discovery has to follow nextCursor several times
+const PAGE_SIZE = 2;
+const RESOURCE_PAGE_SIZE = 10;
+
+const STRING_TOOLS: Record<string, { description: string; apply: (text: string) => string }> = {
+    echo: { description: "Return the text unchanged", apply: text => text },
+    reverse: { description: "Reverse the text", apply: text => [...text].reverse().join("") },
+    uppercase: { description: "Convert the text to upper case", apply: text => text.toUpperCase() },
+    lowercase: { description: "Convert the text to lower case", apply: text => text.toLowerCase() },
+    length: { description: "Count the characters in the text", apply: text => String([...text].length) },
+};
+
+const NOTES = Array.from({ length: 45 }, (_, index) => ({
+    uri: `paged://notes/${index + 1}`,
+    name: `Note ${index + 1}`,
+    mimeType: "text/plain",
+}));
+
+const PROMPTS = ["explain", "critique", "translate"].map(name => ({
+    name,
+    description: `Ask the assistant to ${name} some text`,
+    arguments: [{ name: "text", description: "The text to work with", required: true }],
+}));
+
+// Return one page of items, with the offset of the next page as the cursor
+function paginate<T>(items: T[], pageSize: number, cursor?: string): { page: T[]; nextCursor?: string } {
+    const start = cursor ? Number(cursor) : 0;
+    if (!Number.isInteger(start) || start < 0 || start > items.length) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    const end = start + pageSize;
+    return {
+        page: items.slice(start, end),
+        nextCursor: end < items.length ? String(end) : undefined,
+    };
+}
+
+export function createServer() {
+    const server = new Server(
+        {
+            name: "paged-server",
+            version: "1.0.0"
+        },
+        {
+            capabilities: { tools: {}, resources: {}, prompts: {} }
+        }
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+        const tools = Object.entries(STRING_TOOLS).map(([name, tool]) => ({
+            name,
+            description: tool.description,
+            inputSchema: {
+                type: "object" as const,
+                properties: { text: { type: "string" } },
+                required: ["text"],
+            },
+            annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+        }));
+        const { page, nextCursor } = paginate(tools, PAGE_SIZE, request.params?.cursor);
+        return { tools: page, nextCursor };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        const tool = STRING_TOOLS[request.params.name];
+        if (!tool) {
+            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
+        }
+        const text = String(request.params.arguments?.text ?? "");
+        return { content: [{ type: "text", text: tool.apply(text) }] };
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+        const { page, nextCursor } = paginate(NOTES, RESOURCE_PAGE_SIZE, request.params?.cursor);
+        return { resources: page, nextCursor };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const note = NOTES.find(item => item.uri === request.params.uri);
+        if (!note) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+        }
+        return { contents: [{ uri: note.uri, mimeType: note.mimeType, text: `This is ${note.name}.` }] };
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+        const { page, nextCursor } = paginate(PROMPTS, PAGE_SIZE, request.params?.cursor);
+        return { prompts: page, nextCursor };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const prompt = PROMPTS.find(item => item.name === request.params.name);
+        if (!prompt) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+        }
+        return {
+            messages: [{
+                role: "user" as const,
+                content: { type: "text" as const, text: `Please ${prompt.name} the following:\n\n${request.params.arguments?.text ?? ""}` }
+            }]
+        };
+    });
+
+    return server;
+}
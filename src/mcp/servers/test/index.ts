@@ -1,12 +1,21 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
+const README_TEXT = "This in-memory server exposes an add tool and a few sample resources.";
+const COUNTER_URI = "test://counter";
+const LANGUAGES = ["English", "French", "German", "Italian", "Japanese", "Portuguese", "Spanish"];
+const GREETING_NAMES = ["Ada", "Alan", "Grace", "Linus", "Margaret"];
+
 
 export function createServer() {
     // Create an MCP server
     const server = new McpServer({
         name: "demo-server",
         version: "1.0.0"
+    }, {
+        capabilities: { logging: {} }
     });
 
     // Add an addition tool
@@ -14,10 +23,261 @@ export function createServer() {
         {
             description: "Add two numbers",
             inputSchema: { a: z.number(), b: z.number() },
+            annotations: { title: "Add Numbers", readOnlyHint: true, idempotentHint: true, openWorldHint: false },
         },
         async ({ a, b }) => ({
             content: [{ type: "text", text: String(a + b) }]
         })
     );
+
+    // Tool that asks the client's model for a completion via sampling/createMessage
+    server.registerTool("ask_model",
+        {
+            description: "Ask the client's language model a question using MCP sampling",
+            inputSchema: { question: z.string() },
+            annotations: { title: "Ask Model", readOnlyHint: true, openWorldHint: false },
+        },
+        async ({ question }) => {
+            const result = await server.server.createMessage({
+                messages: [{ role: "user", content: { type: "text", text: question } }],
+                systemPrompt: "Answer in one short paragraph.",
+                modelPreferences: { hints: [{ name: "claude" }], intelligencePriority: 0.8 },
+                maxTokens: 300,
+            });
+            return {
+                content: [{
+                    type: "text",
+                    text: result.content.type === "text" ? result.content.text : `[${result.content.type} response]`
+                }]
+            };
+        }
+    );
+
+    // Tool that collects booking details from the user via elicitation/create
+    server.registerTool("book_table",
+        {
+            description: "Book a restaurant table, asking the user for the booking details",
+            inputSchema: { restaurant: z.string() },
+            annotations: { title: "Book Table", readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+        },
+        async ({ restaurant }) => {
+            const result = await server.server.elicitInput({
+                message: `Please provide your booking details for ${restaurant}.`,
+                requestedSchema: {
+                    type: "object",
+                    properties: {
+                        name: { type: "string", title: "Name", minLength: 1 },
+                        date: { type: "string", title: "Date", format: "date" },
+                        partySize: { type: "integer", title: "Party size", minimum: 1, maximum: 12, default: 2 },
+                        seating: { type: "string", title: "Seating", enum: ["indoor", "outdoor"], enumNames: ["Indoor", "Outdoor"] },
+                        highChair: { type: "boolean", title: "High chair needed", default: false },
+                    },
+                    required: ["name", "date", "partySize"],
+                },
+            });
+
+            if (result.action !== "accept" || !result.content) {
+                return { content: [{ type: "text", text: `Booking ${result.action === "decline" ? "declined" : "cancelled"} by the user.` }] };
+            }
+
+            const { name, date, partySize, seating, highChair } = result.content;
+            return {
+                content: [{
+                    type: "text",
+                    text: `Booked a table for ${partySize} at ${restaurant} on ${date} under ${name}` +
+                        `${seating ? `, ${seating} seating` : ""}${highChair ? ", with a high chair" : ""}.`
+                }]
+            };
+        }
+    );
+
+    // Slow tool that reports notifications/progress and stops when the client cancels
+    server.registerTool("long_task",
+        {
+            description: "Run a slow task in steps, reporting progress after each one",
+            inputSchema: { steps: z.number().int().min(1).max(20).default(5) },
+            annotations: { title: "Long Task", readOnlyHint: true, openWorldHint: false },
+        },
+        async ({ steps }, extra) => {
+            const progressToken = extra._meta?.progressToken;
+            await server.sendLoggingMessage({ level: "info", logger: "long_task", data: `Starting ${steps} steps` });
+            for (let step = 1; step <= steps; step++) {
+                await new Promise(resolve => setTimeout(resolve, 1000));
+                await server.sendLoggingMessage({ level: "debug", logger: "long_task", data: { step, steps } });
+                if (extra.signal.aborted) {
+                    await server.sendLoggingMessage({ level: "warning", logger: "long_task", data: `Cancelled at step ${step}` });
+                    return { content: [{ type: "text", text: `Cancelled after ${step - 1} of ${steps} steps.` }] };
+                }
+                if (progressToken !== undefined) {
+                    await extra.sendNotification({
+                        method: "notifications/progress",
+                        params: { progressToken, progress: step, total: steps, message: `Finished step ${step} of ${steps}` },
+                    });
+                }
+            }
+            return { content: [{ type: "text", text: `Completed ${steps} steps.` }] };
+        }
+    );
+
+    // Tool that reports the client's roots via roots/list
+    server.registerTool("list_roots",
+        {
+            description: "List the workspace roots the client has shared with this server",
+            inputSchema: {},
+            annotations: { title: "List Roots", readOnlyHint: true, openWorldHint: false },
+        },
+        async () => {
+            const { roots } = await server.server.listRoots();
+            return {
+                content: [{
+                    type: "text",
+                    text: roots.length > 0
+                        ? roots.map(root => `${root.name ? `${root.name}: ` : ""}${root.uri}`).join("\n")
+                        : "No roots shared."
+                }]
+            };
+        }
+    );
+
+    // Tool that starts disabled; toggle_multiply enables it, which sends notifications/tools/list_changed
+    const multiplyTool = server.registerTool("multiply",
+        {
+            description: "Multiply two numbers",
+            inputSchema: { a: z.number(), b: z.number() },
+            annotations: { title: "Multiply Numbers", readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+        },
+        async ({ a, b }) => ({
+            content: [{ type: "text", text: String(a * b) }]
+        })
+    );
+    multiplyTool.disable();
+
+    server.registerTool("toggle_multiply",
+        {
+            description: "Enable or disable the multiply tool to test live tool list updates",
+            inputSchema: {},
+            annotations: { title: "Toggle Multiply", readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+        },
+        async () => {
+            if (multiplyTool.enabled) {
+                multiplyTool.disable();
+            } else {
+                multiplyTool.enable();
+            }
+            return {
+                content: [{ type: "text", text: `The multiply tool is now ${multiplyTool.enabled ? "enabled" : "disabled"}.` }]
+            };
+        }
+    );
+
+    // Static resource for testing resources/read
+    server.resource("readme",
+        "test://readme",
+        {
+            description: "About the in-memory test server",
+            mimeType: "text/plain"
+        },
+        async (uri) => ({
+            contents: [{ uri: uri.href, text: README_TEXT }]
+        })
+    );
+
+    // Counter resource for testing resources/subscribe; bump_counter changes it
+    let counter = 0;
+    const subscriptions = new Set<string>();
+
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        subscriptions.add(request.params.uri);
+        return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    server.resource("counter",
+        COUNTER_URI,
+        {
+            description: "A counter that bump_counter increments",
+            mimeType: "text/plain"
+        },
+        async (uri) => ({
+            contents: [{ uri: uri.href, text: `Counter: ${counter}` }]
+        })
+    );
+
+    server.registerTool("bump_counter",
+        {
+            description: "Increment the test://counter resource, notifying subscribers",
+            inputSchema: {},
+            annotations: { title: "Bump Counter", readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+        },
+        async () => {
+            counter++;
+            if (subscriptions.has(COUNTER_URI)) {
+                await server.server.sendResourceUpdated({ uri: COUNTER_URI });
+            }
+            return {
+                content: [{ type: "text", text: `Counter is now ${counter}.` }]
+            };
+        }
+    );
+
+    // Templated resource for testing URI templates
+    server.resource("greeting",
+        new ResourceTemplate("test://greeting/{name}", {
+            list: undefined,
+            complete: {
+                name: (value) => GREETING_NAMES.filter(name => name.toLowerCase().startsWith(value.toLowerCase()))
+            }
+        }),
+        {
+            description: "A greeting for the given name",
+            mimeType: "text/plain"
+        },
+        async (uri, { name }) => ({
+            contents: [{ uri: uri.href, text: `Hello, ${name}!` }]
+        })
+    );
+
+    // Prompt with arguments and an embedded resource for testing prompts/get
+    server.prompt("summarize",
+        "Ask the assistant to summarize a topic",
+        { topic: z.string().describe("What to summarize"), style: z.string().optional().describe("e.g. brief, detailed") },
+        ({ topic, style }) => ({
+            messages: [
+                {
+                    role: "user",
+                    content: {
+                        type: "resource",
+                        resource: { uri: "test://readme", mimeType: "text/plain", text: README_TEXT }
+                    }
+                },
+                {
+                    role: "user",
+                    content: { type: "text", text: `Summarize ${topic}${style ? ` in a ${style} style` : ""}.` }
+                }
+            ]
+        })
+    );
+
+    // Prompt with completable arguments for testing completion/complete
+    server.prompt("translate",
+        "Ask the assistant to translate text into another language",
+        {
+            language: completable(
+                z.string().describe("Target language"),
+                (value) => LANGUAGES.filter(language => language.toLowerCase().startsWith(value.toLowerCase()))
+            ),
+            text: z.string().describe("Text to translate"),
+        },
+        ({ language, text }) => ({
+            messages: [{
+                role: "user",
+                content: { type: "text", text: `Translate the following into ${language}:\n\n${text}` }
+            }]
+        })
+    );
     return server;
 }
\ No newline at end of file
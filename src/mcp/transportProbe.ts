@@ -0,0 +1,84 @@
+import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
+import type { FetchLike } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { MCPTransportDiagnostic } from "@/types/mcp";
+
+type HttpTransport = 'sse' | 'streamable-http';
+type ProbeFindings = Omit<MCPTransportDiagnostic, 'transport' | 'startedAt' | 'durationMs' | 'succeeded'>;
+
+/**
+ * Wraps fetch for a single transport attempt and records what the server sent back.
+ * Browsers hide why a cross-origin request failed, so the failure is explained from
+ * what was (or wasn't) observable: response statuses, readable headers, network errors.
+ */
+export class TransportProbe {
+
+    private httpStatus?: number;
+    private responseCount = 0;
+    private networkError = false;
+    private sessionHeaderSeen = false;
+    private authChallenge = false;
+
+    constructor(private transport: HttpTransport, private serverUrl: URL) {}
+
+    fetch: FetchLike = async (url, init) => {
+        let response: Response;
+        try {
+            response = await fetch(url, init);
+        } catch (error) {
+            // Requests cancelled when the attempt is torn down aren't network failures
+            if (!init?.signal?.aborted) {
+                this.networkError = true;
+            }
+            throw error;
+        }
+
+        // OAuth metadata discovery 404s routinely and says nothing about the transport
+        if (!new URL(url).pathname.startsWith('/.well-known/')) {
+            this.responseCount++;
+            this.httpStatus = response.status;
+            if (response.headers.has('mcp-session-id')) {
+                this.sessionHeaderSeen = true;
+            }
+        }
+        if (response.status === 401 || response.headers.has('www-authenticate')) {
+            this.authChallenge = true;
+        }
+        return response;
+    };
+
+    diagnose(error: unknown): ProbeFindings {
+        const errorCode = (error as { code?: unknown })?.code;
+        const findings: ProbeFindings = {
+            error: error instanceof Error ? error.message : String(error),
+            httpStatus: this.httpStatus ?? (typeof errorCode === 'number' && errorCode >= 100 ? errorCode : undefined),
+            authChallenge: this.authChallenge || error instanceof UnauthorizedError,
+        };
+
+        if (this.networkError) {
+            const crossOrigin = this.serverUrl.origin !== window.location.origin;
+            if (this.responseCount > 0) {
+                findings.likelyCors = true;
+                findings.hint = 'The first request succeeded but a later one was blocked. The server may not allow the Mcp-Session-Id header or this HTTP method in its CORS preflight (Access-Control-Allow-Headers / -Methods).';
+            } else if (crossOrigin && navigator.onLine) {
+                findings.likelyCors = true;
+                findings.hint = 'The request failed before any response was readable. The server is probably not sending CORS headers for this origin, or it is unreachable.';
+            } else {
+                findings.hint = 'The server could not be reached.';
+            }
+        } else if (findings.authChallenge) {
+            findings.hint = 'The server requires authorization.';
+        } else if (this.transport === 'streamable-http' && this.responseCount > 1 && !this.sessionHeaderSeen
+            && (findings.httpStatus === 400 || findings.httpStatus === 404)) {
+            findings.missingExposeHeaders = true;
+            findings.hint = 'The server answered initialize, but no Mcp-Session-Id header was readable and later requests were rejected. Add Mcp-Session-Id to Access-Control-Expose-Headers.';
+        } else if (findings.httpStatus === 404 || findings.httpStatus === 405) {
+            findings.hint = this.transport === 'streamable-http'
+                ? 'The endpoint does not accept Streamable HTTP requests.'
+                : 'The endpoint does not serve an SSE stream.';
+        } else if (findings.httpStatus && findings.httpStatus >= 500) {
+            findings.hint = 'The server returned an error.';
+        }
+
+        return findings;
+    }
+}
@@ -0,0 +1,210 @@
+// Anthropic API Key Provider
+
+import { InferenceProvider } from '@/types/inference';
+import type {
+  Model,
+  InferenceRequest,
+  InferenceResponse,
+  InferenceStreamCallback,
+  AuthConfig,
+  ProviderCapabilities,
+  InferenceError,
+} from '@/types/inference';
+import { AnthropicClient } from './client';
+import type { AnthropicApiConfig } from './types';
+
+export class AnthropicApiProvider extends InferenceProvider {
+  readonly name = 'Anthropic (API Key)';
+  readonly id = 'anthropic-api';
+
+  private client: AnthropicClient;
+  private apiKey?: string;
+  private _models: Model[] = [];
+  private _selectedModel?: Model;
+  private _authError?: string;
+
+  constructor(config?: AnthropicApiConfig) {
+    super();
+    this.client = new AnthropicClient(config || {});
+    if (config?.apiKey) {
+      this.apiKey = config.apiKey;
+    }
+
+    // Load stored API key
+    this.loadStoredApiKey();
+  }
+
+  get isAuthenticated(): boolean {
+    return !!this.apiKey && !this._authError;
+  }
+
+  get authError(): string | undefined {
+    return this._authError;
+  }
+
+  get models(): Model[] {
+    return this._models;
+  }
+
+  get selectedModel(): Model | undefined {
+    return this._selectedModel;
+  }
+
+  async authenticate(config: AuthConfig): Promise<void> {
+    if (config.type !== 'api_key' || !config.apiKey) {
+      throw new Error('AnthropicApiProvider requires API key authentication');
+    }
+
+    this.apiKey = config.apiKey;
+    this._authError = undefined;
+
+    try {
+      // Test the API key by loading models
+      await this.loadModels();
+
+      // Store API key after successful validation
+      this.storeApiKey();
+    } catch (error) {
+      this._authError = error instanceof Error ? error.message : 'Authentication failed';
+      this.apiKey = undefined;
+      throw error;
+    }
+  }
+
+  logout(): void {
+    this.apiKey = undefined;
+    this._authError = undefined;
+    this._models = [];
+    this._selectedModel = undefined;
+    this.clearStoredApiKey();
+  }
+
+  async loadModels(): Promise<Model[]> {
+    if (!this.apiKey) {
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      this._models = await this.client.fetchModels(this.apiKey);
+
+      // Check if currently selected model is still in the list
+      if (this._selectedModel && !this._models.find(m => m.id === this._selectedModel!.id)) {
+        this._selectedModel = undefined;
+      }
+
+      // Set default model if none selected (the API lists newest models first)
+      if (!this._selectedModel && this._models.length > 0) {
+        this._selectedModel = this._models.find(m => m.id.includes('sonnet')) || this._models[0];
+      }
+
+      return this._models;
+    } catch (error) {
+      if (this.isInferenceError(error) && error.type === 'auth') {
+        this._authError = error.message;
+        this.apiKey = undefined;
+      }
+      throw error;
+    }
+  }
+
+  selectModel(modelId: string): void {
+    const model = this._models.find(m => m.id === modelId);
+    if (!model) {
+      throw new Error(`Model ${modelId} not found`);
+    }
+    this._selectedModel = model;
+  }
+
+  async generateResponse(request: InferenceRequest): Promise<InferenceResponse> {
+    if (!this.apiKey) {
+      throw new Error('Not authenticated');
+    }
+
+    // A model named on the request (e.g. by MCP sampling preferences) overrides the selection
+    const modelId = request.model || this._selectedModel?.id;
+    if (!modelId) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      return await this.client.generateResponse(
+        request,
+        modelId,
+        this.apiKey
+      );
+    } catch (error) {
+      if (this.isInferenceError(error) && error.type === 'auth') {
+        this._authError = error.message;
+        this.apiKey = undefined;
+      }
+      throw error;
+    }
+  }
+
+  async generateStreamingResponse(
+    request: InferenceRequest,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> {
+    if (!this.apiKey) {
+      throw new Error('Not authenticated');
+    }
+
+    const modelId = request.model || this._selectedModel?.id;
+    if (!modelId) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      return await this.client.generateStreamingResponse(
+        request,
+        modelId,
+        this.apiKey,
+        onChunk,
+        signal
+      );
+    } catch (error) {
+      if (this.isInferenceError(error) && error.type === 'auth') {
+        this._authError = error.message;
+        this.apiKey = undefined;
+      }
+      throw error;
+    }
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      authMethods: ['api_key'],
+      supportsModelListing: true,
+      supportsStreaming: true,
+      supportsCustomEndpoint: false,
+      requiresAuth: true,
+    };
+  }
+
+  private isInferenceError(error: any): error is InferenceError {
+    return error && typeof error === 'object' && 'type' in error && 'message' in error;
+  }
+
+  private storeApiKey(): void {
+    if (this.apiKey) {
+      localStorage.setItem('anthropic_api_key', this.apiKey);
+    }
+  }
+
+  private loadStoredApiKey(): void {
+    const storedKey = localStorage.getItem('anthropic_api_key');
+    if (storedKey) {
+      this.apiKey = storedKey;
+      // Try to load models to verify the key is still valid
+      this.loadModels().catch(() => {
+        // If loading fails, clear invalid key
+        this.logout();
+      });
+    }
+  }
+
+  private clearStoredApiKey(): void {
+    localStorage.removeItem('anthropic_api_key');
+  }
+}
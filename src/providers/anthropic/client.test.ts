@@ -0,0 +1,303 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { InferenceError, InferenceStreamChunk } from '@/types/inference';
+import { AnthropicClient } from './client';
+
+const API_KEY = 'test-key';
+
+interface RecordedRequest {
+  url: string;
+  init: RequestInit;
+}
+
+// Local stand-in for the Messages API: answers each request with the next queued response
+function stubFetch(...responses: Response[]) {
+  const requests: RecordedRequest[] = [];
+  const fetchStub = vi.fn(async (url: string, init: RequestInit) => {
+    requests.push({ url, init });
+    const response = responses.shift();
+    if (!response) {
+      throw new Error(`Unexpected request to ${url}`);
+    }
+    return response;
+  });
+  vi.stubGlobal('fetch', fetchStub);
+  return requests;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function eventStreamResponse(events: Array<Record<string, unknown>>): Response {
+  const body = events
+    .map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function messageResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-test',
+    content: [{ type: 'text', text: 'Hello' }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 10, output_tokens: 5 },
+    ...overrides,
+  };
+}
+
+function requestBody(request: RecordedRequest) {
+  return JSON.parse(request.init.body as string);
+}
+
+describe('AnthropicClient', () => {
+  let client: AnthropicClient;
+
+  beforeEach(() => {
+    client = new AnthropicClient({ baseUrl: 'https://anthropic.test/v1' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the API key, version and browser access headers', async () => {
+    const requests = stubFetch(jsonResponse(messageResponse()));
+
+    await client.generateResponse({ messages: [{ role: 'user', content: 'Hi' }] }, 'claude-test', API_KEY);
+
+    expect(requests[0].url).toBe('https://anthropic.test/v1/messages');
+    expect(requests[0].init.headers).toMatchObject({
+      'x-api-key': API_KEY,
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true',
+    });
+  });
+
+  it('maps tool calls and tool results onto tool_use and tool_result blocks', async () => {
+    const requests = stubFetch(jsonResponse(messageResponse()));
+
+    await client.generateResponse({
+      messages: [
+        { role: 'user', content: 'Weather in Paris and Rome?' },
+        {
+          role: 'assistant',
+          content: 'Checking.',
+          toolCalls: [
+            { id: 'call_1', type: 'function', function: { name: 'weather', arguments: { city: 'Paris' } } },
+            { id: 'call_2', type: 'function', function: { name: 'weather', arguments: { city: 'Rome' } } },
+          ],
+        },
+        { role: 'tool', toolCallId: 'call_1', content: 'Sunny' },
+        { role: 'tool', toolCallId: 'call_2', content: [{ type: 'text', text: 'Rain' }] },
+      ],
+      tools: [{
+        type: 'function',
+        function: { name: 'weather', description: 'Get the weather', parameters: { properties: { city: { type: 'string' } } } },
+      }],
+    }, 'claude-test', API_KEY);
+
+    const body = requestBody(requests[0]);
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Weather in Paris and Rome?' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Paris' } },
+          { type: 'tool_use', id: 'call_2', name: 'weather', input: { city: 'Rome' } },
+        ],
+      },
+      // Consecutive tool results are merged into a single user turn
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' },
+          { type: 'tool_result', tool_use_id: 'call_2', content: 'Rain' },
+        ],
+      },
+    ]);
+    expect(body.tools).toEqual([{
+      name: 'weather',
+      description: 'Get the weather',
+      input_schema: { type: 'object', properties: { city: { type: 'string' } } },
+    }]);
+    expect(body.tool_choice).toEqual({ type: 'auto' });
+  });
+
+  it('parses tool_use blocks in the response into tool calls', async () => {
+    stubFetch(jsonResponse(messageResponse({
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris' } },
+      ],
+      stop_reason: 'tool_use',
+    })));
+
+    const response = await client.generateResponse({ messages: [{ role: 'user', content: 'Hi' }] }, 'claude-test', API_KEY);
+
+    expect(response.message).toEqual({
+      role: 'assistant',
+      content: 'Let me check.',
+      toolCalls: [{ id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: { city: 'Paris' } } }],
+    });
+    expect(response.stopReason).toBe('tool_calls');
+    expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+  });
+
+  it('moves the system prompt and system messages into the top-level system parameter', async () => {
+    const requests = stubFetch(jsonResponse(messageResponse()));
+
+    await client.generateResponse({
+      systemPrompt: 'Be brief.',
+      messages: [
+        { role: 'system', content: 'Answer in French.' },
+        { role: 'user', content: 'Hi' },
+      ],
+    }, 'claude-test', API_KEY);
+
+    const body = requestBody(requests[0]);
+    expect(body.system).toBe('Be brief.\n\nAnswer in French.');
+    expect(body.messages).toEqual([{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }]);
+  });
+
+  it('omits the system parameter when there is no system content', async () => {
+    const requests = stubFetch(jsonResponse(messageResponse()));
+
+    await client.generateResponse({ messages: [{ role: 'user', content: 'Hi' }] }, 'claude-test', API_KEY);
+
+    expect(requestBody(requests[0])).not.toHaveProperty('system');
+  });
+
+  it('assembles a streamed message from its events', async () => {
+    const requests = stubFetch(eventStreamResponse([
+      { type: 'message_start', message: messageResponse({ content: [], stop_reason: null, usage: { input_tokens: 12, output_tokens: 1 } }) },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'weather', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 20 } },
+      { type: 'message_stop' },
+    ]));
+    const chunks: InferenceStreamChunk[] = [];
+
+    const response = await client.generateStreamingResponse(
+      { messages: [{ role: 'user', content: 'Hi' }] },
+      'claude-test',
+      API_KEY,
+      chunk => chunks.push(chunk)
+    );
+
+    expect(requestBody(requests[0]).stream).toBe(true);
+    expect(chunks).toEqual([
+      { type: 'text_delta', text: 'Hel' },
+      { type: 'text_delta', text: 'lo' },
+      { type: 'tool_call_delta', toolCallIndex: 1, toolCallId: 'toolu_1', toolName: 'weather', argumentsDelta: '' },
+      { type: 'tool_call_delta', toolCallIndex: 1, argumentsDelta: '{"city":' },
+      { type: 'tool_call_delta', toolCallIndex: 1, argumentsDelta: '"Paris"}' },
+    ]);
+    expect(response.message).toEqual({
+      role: 'assistant',
+      content: 'Hello',
+      toolCalls: [{ id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: { city: 'Paris' } } }],
+    });
+    expect(response.stopReason).toBe('tool_calls');
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 20, totalTokens: 32 });
+  });
+
+  it('passes the abort signal to fetch so a stopped stream is cancelled', async () => {
+    const requests = stubFetch(eventStreamResponse([
+      { type: 'message_start', message: messageResponse({ content: [] }) },
+      { type: 'message_stop' },
+    ]));
+    const abortController = new AbortController();
+
+    await client.generateStreamingResponse(
+      { messages: [{ role: 'user', content: 'Hi' }] },
+      'claude-test',
+      API_KEY,
+      () => {},
+      abortController.signal
+    );
+
+    expect(requests[0].init.signal).toBe(abortController.signal);
+  });
+
+  it('rejects with a provider error when the stream reports one', async () => {
+    stubFetch(eventStreamResponse([
+      { type: 'message_start', message: messageResponse({ content: [] }) },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+    ]));
+
+    await expect(client.generateStreamingResponse(
+      { messages: [{ role: 'user', content: 'Hi' }] },
+      'claude-test',
+      API_KEY,
+      () => {}
+    )).rejects.toMatchObject({ type: 'provider_error', message: 'Overloaded', retryable: true });
+  });
+
+  it('follows model list pages until has_more is false', async () => {
+    const requests = stubFetch(
+      jsonResponse({
+        data: [{ type: 'model', id: 'claude-a', display_name: 'Claude A', created_at: '2025-01-01T00:00:00Z' }],
+        has_more: true,
+        first_id: 'claude-a',
+        last_id: 'claude-a',
+      }),
+      jsonResponse({
+        data: [{ type: 'model', id: 'claude-b', display_name: 'Claude B', created_at: '2025-01-01T00:00:00Z' }],
+        has_more: false,
+        first_id: 'claude-b',
+        last_id: 'claude-b',
+      })
+    );
+
+    const models = await client.fetchModels(API_KEY);
+
+    expect(models.map(model => model.id)).toEqual(['claude-a', 'claude-b']);
+    expect(models[0]).toMatchObject({ name: 'Claude A', provider: 'anthropic' });
+    expect(new URL(requests[0].url).searchParams.has('after_id')).toBe(false);
+    expect(new URL(requests[1].url).searchParams.get('after_id')).toBe('claude-a');
+  });
+
+  it.each([
+    [401, 'auth', false],
+    [403, 'auth', false],
+    [429, 'rate_limit', true],
+    [400, 'invalid_request', false],
+    [529, 'provider_error', true],
+  ] as const)('maps HTTP %i errors to %s', async (status, type, retryable) => {
+    stubFetch(jsonResponse({ type: 'error', error: { type: 'api_error', message: 'Request failed' } }, status));
+
+    await expect(client.generateResponse({ messages: [{ role: 'user', content: 'Hi' }] }, 'claude-test', API_KEY))
+      .rejects.toMatchObject({ type, message: 'Request failed', retryable });
+  });
+
+  it('maps error responses without a JSON body', async () => {
+    stubFetch(new Response('<html>Bad Gateway</html>', { status: 502, statusText: 'Bad Gateway' }));
+
+    await expect(client.generateResponse({ messages: [{ role: 'user', content: 'Hi' }] }, 'claude-test', API_KEY))
+      .rejects.toMatchObject({ type: 'provider_error', message: 'Bad Gateway', retryable: true });
+  });
+
+  it('reports network failures as retryable network errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+
+    const error: InferenceError = await client.fetchModels(API_KEY).catch(error => error);
+
+    expect(error).toMatchObject({ type: 'network', retryable: true });
+  });
+});
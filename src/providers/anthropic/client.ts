@@ -0,0 +1,461 @@
+// Anthropic Messages API HTTP client and format conversion
+
+import type {
+  InferenceRequest,
+  InferenceResponse,
+  InferenceStreamCallback,
+  InferenceError,
+  ChatMessage,
+  ContentBlock,
+  Model,
+} from '@/types/inference';
+import type { TextBlock, ToolUseBlock } from '@/types/conversation';
+import type {
+  AnthropicApiConfig,
+  AnthropicContentBlock,
+  AnthropicErrorResponse,
+  AnthropicMessage,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicModel,
+  AnthropicModelsResponse,
+  AnthropicStreamEvent,
+} from './types';
+import { readEventStream } from '@/utils/eventStream';
+
+// Current Claude models all share these limits; the models endpoint doesn't report them
+const DEFAULT_CONTEXT_LENGTH = 200000;
+const DEFAULT_MAX_TOKENS = 8192;
+
+export class AnthropicClient {
+  private baseUrl: string;
+  private apiVersion: string;
+  private defaultMaxTokens: number;
+
+  constructor(config: AnthropicApiConfig) {
+    this.baseUrl = config.baseUrl || 'https://api.anthropic.com/v1';
+    this.apiVersion = config.apiVersion || '2023-06-01';
+    this.defaultMaxTokens = config.defaultMaxTokens || DEFAULT_MAX_TOKENS;
+  }
+
+  private async fetchWithAuth(
+    endpoint: string,
+    options: RequestInit,
+    apiKey: string
+  ): Promise<Response> {
+    const url = `${this.baseUrl}${endpoint}`;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': this.apiVersion,
+      // Required for CORS requests made directly from the browser
+      'anthropic-dangerous-direct-browser-access': 'true',
+      ...(options.headers as Record<string, string> || {}),
+    };
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        headers,
+      });
+
+      if (!response.ok) {
+        // Proxies in front of the API can answer with an HTML or empty body
+        const errorData = await response.json().catch(() => ({
+          type: 'error',
+          error: { type: 'api_error', message: response.statusText },
+        })) as AnthropicErrorResponse;
+        throw this.createInferenceError(response.status, errorData);
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TypeError') {
+        // Network error
+        throw {
+          type: 'network',
+          message: 'Network request failed',
+          details: error,
+          retryable: true,
+        } as InferenceError;
+      }
+      throw error;
+    }
+  }
+
+  async fetchModels(apiKey: string): Promise<Model[]> {
+    const models: AnthropicModel[] = [];
+    let afterId: string | undefined;
+
+    // The models endpoint is paginated
+    do {
+      const query = new URLSearchParams({ limit: '1000' });
+      if (afterId) {
+        query.set('after_id', afterId);
+      }
+
+      const response = await this.fetchWithAuth(`/models?${query}`, { method: 'GET' }, apiKey);
+      const page = await response.json() as AnthropicModelsResponse;
+
+      models.push(...page.data);
+      afterId = page.has_more ? page.last_id : undefined;
+    } while (afterId);
+
+    return models.map(model => this.parseModel(model));
+  }
+
+  async generateResponse(
+    request: InferenceRequest,
+    model: string,
+    apiKey: string
+  ): Promise<InferenceResponse> {
+    const response = await this.fetchWithAuth(
+      '/messages',
+      {
+        method: 'POST',
+        body: JSON.stringify(this.buildMessagesRequest(request, model)),
+      },
+      apiKey
+    );
+
+    return this.parseResponse(await response.json() as AnthropicMessagesResponse);
+  }
+
+  async generateStreamingResponse(
+    request: InferenceRequest,
+    model: string,
+    apiKey: string,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> {
+    const response = await this.fetchWithAuth(
+      '/messages',
+      {
+        method: 'POST',
+        body: JSON.stringify({ ...this.buildMessagesRequest(request, model), stream: true }),
+        signal,
+      },
+      apiKey
+    );
+
+    // Rebuild the full message from the event stream
+    let message: AnthropicMessagesResponse | undefined;
+    const partialToolInputs = new Map<number, string>();
+
+    await readEventStream(response, (data) => {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+
+      switch (event.type) {
+        case 'message_start':
+          message = { ...event.message, content: [] };
+          break;
+
+        case 'content_block_start':
+          if (!message) break;
+          message.content[event.index] = event.content_block.type === 'tool_use'
+            ? { ...event.content_block, input: {} }
+            : { ...event.content_block };
+
+          if (event.content_block.type === 'tool_use') {
+            partialToolInputs.set(event.index, '');
+            onChunk({
+              type: 'tool_call_delta',
+              toolCallIndex: event.index,
+              toolCallId: event.content_block.id,
+              toolName: event.content_block.name,
+              argumentsDelta: '',
+            });
+          } else if (event.content_block.text) {
+            onChunk({ type: 'text_delta', text: event.content_block.text });
+          }
+          break;
+
+        case 'content_block_delta': {
+          const block = message?.content[event.index];
+          if (!block) break;
+
+          if (event.delta.type === 'text_delta' && block.type === 'text') {
+            block.text += event.delta.text;
+            onChunk({ type: 'text_delta', text: event.delta.text });
+          } else if (event.delta.type === 'input_json_delta') {
+            partialToolInputs.set(event.index, (partialToolInputs.get(event.index) || '') + event.delta.partial_json);
+            onChunk({
+              type: 'tool_call_delta',
+              toolCallIndex: event.index,
+              argumentsDelta: event.delta.partial_json,
+            });
+          }
+          break;
+        }
+
+        case 'content_block_stop': {
+          const block = message?.content[event.index];
+          if (block?.type === 'tool_use') {
+            block.input = this.parseToolInput(partialToolInputs.get(event.index) || '');
+          }
+          break;
+        }
+
+        case 'message_delta':
+          if (!message) break;
+          message.stop_reason = event.delta.stop_reason;
+          message.usage = { ...message.usage, ...event.usage };
+          break;
+
+        case 'error':
+          throw this.createInferenceError(500, { type: 'error', error: event.error });
+      }
+    });
+
+    if (!message) {
+      throw {
+        type: 'provider_error',
+        message: 'Stream ended before a message was received',
+        retryable: true,
+      } as InferenceError;
+    }
+
+    return this.parseResponse(message);
+  }
+
+  private buildMessagesRequest(request: InferenceRequest, model: string): AnthropicMessagesRequest {
+    // System messages are a top-level parameter rather than part of the conversation
+    const systemParts = request.systemPrompt ? [request.systemPrompt] : [];
+    const messages: AnthropicMessage[] = [];
+
+    for (const message of request.messages) {
+      if (message.role === 'system') {
+        systemParts.push(this.contentToText(message.content));
+        continue;
+      }
+
+      const formatted = this.formatMessage(message);
+      const previous = messages[messages.length - 1];
+
+      // Consecutive messages with the same role (e.g. several tool results) must be merged
+      if (previous && previous.role === formatted.role) {
+        previous.content = [
+          ...this.toContentBlocks(previous.content),
+          ...this.toContentBlocks(formatted.content),
+        ];
+      } else {
+        messages.push(formatted);
+      }
+    }
+
+    const anthropicRequest: AnthropicMessagesRequest = {
+      model,
+      messages,
+      max_tokens: request.maxTokens || this.defaultMaxTokens,
+      temperature: request.temperature,
+      stop_sequences: request.stopSequences,
+    };
+
+    if (systemParts.length > 0) {
+      anthropicRequest.system = systemParts.join('\n\n');
+    }
+
+    // Add tools if provided
+    if (request.tools && request.tools.length > 0) {
+      anthropicRequest.tools = request.tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: {
+          type: 'object',
+          ...tool.function.parameters,
+        },
+      }));
+      anthropicRequest.tool_choice = { type: 'auto' };
+    }
+
+    return anthropicRequest;
+  }
+
+  private formatMessage(message: ChatMessage): AnthropicMessage {
+    // Tool results are sent back as tool_result blocks in a user turn
+    if (message.role === 'tool') {
+      return {
+        role: 'user',
+        content: [{
+          type: 'tool_result',
+          tool_use_id: message.toolCallId || '',
+          content: this.contentToText(message.content),
+        }],
+      };
+    }
+
+    const content: AnthropicContentBlock[] = typeof message.content === 'string'
+      ? (message.content ? [{ type: 'text', text: message.content }] : [])
+      : message.content.map(block => this.formatContentBlock(block));
+
+    // Tool calls map onto native tool_use blocks
+    for (const toolCall of message.toolCalls || []) {
+      content.push({
+        type: 'tool_use',
+        id: toolCall.id,
+        name: toolCall.function.name,
+        input: toolCall.function.arguments,
+      });
+    }
+
+    return {
+      role: message.role === 'assistant' ? 'assistant' : 'user',
+      content,
+    };
+  }
+
+  private formatContentBlock(block: ContentBlock): AnthropicContentBlock {
+    if (block.type === 'text') {
+      return { type: 'text', text: block.text || '' };
+    }
+
+    // Data URLs are sent inline, anything else is fetched by the API
+    const dataUrlMatch = block.imageUrl?.match(/^data:([^;]+);base64,(.*)$/);
+    if (dataUrlMatch) {
+      return {
+        type: 'image',
+        source: { type: 'base64', media_type: dataUrlMatch[1], data: dataUrlMatch[2] },
+      };
+    }
+
+    return {
+      type: 'image',
+      source: { type: 'url', url: block.imageUrl || '' },
+    };
+  }
+
+  private toContentBlocks(content: AnthropicMessage['content']): AnthropicContentBlock[] {
+    return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+  }
+
+  private contentToText(content: ChatMessage['content']): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return content.map(block => block.text || '').join('');
+  }
+
+  private parseModel(anthropicModel: AnthropicModel): Model {
+    return {
+      id: anthropicModel.id,
+      name: anthropicModel.display_name,
+      contextLength: DEFAULT_CONTEXT_LENGTH,
+      provider: 'anthropic',
+      capabilities: {
+        supportsVision: true,
+        maxTokens: this.defaultMaxTokens,
+      },
+    };
+  }
+
+  private parseResponse(response: AnthropicMessagesResponse): InferenceResponse {
+    const text = response.content
+      .filter((block): block is TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    const toolUseBlocks = response.content.filter(
+      (block): block is ToolUseBlock => block?.type === 'tool_use'
+    );
+
+    const chatMessage: ChatMessage = {
+      role: 'assistant',
+      content: text,
+    };
+
+    if (toolUseBlocks.length > 0) {
+      chatMessage.toolCalls = toolUseBlocks.map(block => ({
+        id: block.id,
+        type: 'function',
+        function: {
+          name: block.name,
+          arguments: block.input,
+        },
+      }));
+    }
+
+    let stopReason: InferenceResponse['stopReason'];
+    switch (response.stop_reason) {
+      case 'end_turn':
+      case 'stop_sequence':
+        stopReason = 'stop';
+        break;
+      case 'max_tokens':
+        stopReason = 'max_tokens';
+        break;
+      case 'tool_use':
+        stopReason = 'tool_calls';
+        break;
+      default:
+        stopReason = 'error';
+    }
+
+    return {
+      message: chatMessage,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      stopReason,
+      finishReason: response.stop_reason || undefined,
+    };
+  }
+
+  private parseToolInput(json: string): Record<string, any> {
+    if (!json) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      // If JSON parsing fails, create an error object
+      return {
+        _parseError: 'Invalid JSON in tool call arguments',
+        _rawArguments: json,
+      };
+    }
+  }
+
+  private createInferenceError(status: number, errorData: AnthropicErrorResponse): InferenceError {
+    const error = errorData.error;
+
+    let type: InferenceError['type'];
+    let retryable = false;
+
+    switch (status) {
+      case 401:
+      case 403:
+        type = 'auth';
+        break;
+      case 429:
+        type = 'rate_limit';
+        retryable = true;
+        break;
+      case 400:
+      case 404:
+      case 413:
+        type = 'invalid_request';
+        break;
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+      case 529: // Overloaded
+        type = 'provider_error';
+        retryable = true;
+        break;
+      default:
+        type = 'provider_error';
+    }
+
+    return {
+      type,
+      message: error?.message || `HTTP ${status} error`,
+      details: error,
+      retryable,
+    };
+  }
+}
@@ -0,0 +1,5 @@
+// Anthropic provider exports
+
+export { AnthropicApiProvider } from './api-provider';
+export { AnthropicClient } from './client';
+export type { AnthropicApiConfig } from './types';
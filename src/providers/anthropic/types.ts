@@ -0,0 +1,111 @@
+// Anthropic-specific types and configurations
+
+import type { TextBlock, ToolUseBlock } from '@/types/conversation';
+
+export interface AnthropicApiConfig {
+  baseUrl?: string; // defaults to https://api.anthropic.com/v1
+  apiVersion?: string; // defaults to 2023-06-01
+  apiKey?: string;
+  defaultMaxTokens?: number;
+}
+
+// Anthropic Messages API content blocks. Text and tool_use blocks share their shape
+// with the conversation content blocks, so those types are reused directly.
+export interface AnthropicImageBlock {
+  type: 'image';
+  source:
+    | { type: 'base64'; media_type: string; data: string }
+    | { type: 'url'; url: string };
+}
+
+export interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string | TextBlock[];
+  is_error?: boolean;
+}
+
+export type AnthropicContentBlock =
+  | TextBlock
+  | ToolUseBlock
+  | AnthropicToolResultBlock
+  | AnthropicImageBlock;
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, any>;
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  system?: string;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'auto' | 'any' | 'none' };
+  temperature?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+}
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: (TextBlock | ToolUseBlock)[];
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'pause_turn' | 'refusal' | null;
+  usage: AnthropicUsage;
+}
+
+// Streaming (SSE) event types
+export type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicMessagesResponse }
+  | { type: 'content_block_start'; index: number; content_block: TextBlock | ToolUseBlock }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason: AnthropicMessagesResponse['stop_reason'] };
+      usage: Partial<AnthropicUsage>;
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: AnthropicErrorResponse['error'] };
+
+export interface AnthropicModel {
+  id: string;
+  display_name: string;
+  created_at: string;
+  type: 'model';
+}
+
+export interface AnthropicModelsResponse {
+  data: AnthropicModel[];
+  has_more: boolean;
+  first_id?: string;
+  last_id?: string;
+}
+
+export interface AnthropicErrorResponse {
+  type: 'error';
+  error: {
+    type: string;
+    message: string;
+  };
+}
@@ -1,3 +1,6 @@
 // All inference providers
 
-export * from './openrouter';
\ No newline at end of file
+export * from './openrouter';
+export * from './anthropic';
+export * from './openai-compatible';
+export * from './mock';
\ No newline at end of file
@@ -0,0 +1,5 @@
+// Mock provider exports
+
+export { MockInferenceProvider } from './provider';
+export { defaultMockScript, mockText, mockMaxTokens, mockToolCalls, mockError } from './scripts';
+export type { MockScript, MockScriptStep } from './types';
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import type { Conversation, ConversationMessage, ToolResultBlock, UseAgentLoopReturn } from '@/types/conversation';
+import type { useInference } from '@/contexts/InferenceContext';
+import type { MCPContextValue } from '@/types/mcp';
+import { MCPConnectionManager } from '@/mcp/connection';
+import { createServer as createTestServer } from '@/mcp/servers/test';
+import { useAgentLoop } from '@/hooks/useAgentLoop';
+import { normalizeServerName } from '@/utils/mcpUtils';
+import { MockInferenceProvider } from './provider';
+import { mockText, mockToolCalls } from './scripts';
+
+// The agent loop reads its provider and tools from context; these stand in for the providers
+let inference: Partial<ReturnType<typeof useInference>>;
+let mcp: Partial<MCPContextValue>;
+
+vi.mock('@/contexts/InferenceContext', () => ({ useInference: () => inference }));
+vi.mock('@/contexts/MCPContext', () => ({ useMCP: () => mcp }));
+
+const SERVER_NAME = 'In-Memory Test Server';
+const ADD_TOOL = `${normalizeServerName(SERVER_NAME)}__add`;
+
+// Minimal browser globals the connection manager and its OAuth provider touch
+function createStorage(): Storage {
+  const values = new Map<string, string>();
+  return {
+    get length() { return values.size; },
+    clear: () => values.clear(),
+    getItem: key => values.get(key) ?? null,
+    key: index => [...values.keys()][index] ?? null,
+    removeItem: key => { values.delete(key); },
+    setItem: (key, value) => { values.set(key, value); },
+  };
+}
+
+// Render once on the server to get at the hook's callbacks; the loop itself needs no DOM
+function renderAgentLoop(): UseAgentLoopReturn {
+  let agentLoop: UseAgentLoopReturn | undefined;
+  const Harness = () => {
+    agentLoop = useAgentLoop();
+    return null;
+  };
+  renderToString(createElement(Harness));
+  return agentLoop!;
+}
+
+function userMessage(text: string): ConversationMessage {
+  return { id: `user_${text}`, role: 'user', content: [{ type: 'text', text }], timestamp: new Date() };
+}
+
+async function runTurn(agentLoop: UseAgentLoopReturn, conversation: Conversation): Promise<Conversation> {
+  let latest = conversation;
+  await agentLoop.executeAgentLoop(conversation, update => {
+    latest = update;
+  });
+  return latest;
+}
+
+function blocksOfType<T extends ConversationMessage['content'][number]['type']>(conversation: Conversation, type: T) {
+  return conversation.messages
+    .flatMap(message => message.content)
+    .filter((block): block is Extract<ConversationMessage['content'][number], { type: T }> => block.type === type);
+}
+
+describe('MockInferenceProvider in the agent loop', () => {
+  let provider: MockInferenceProvider;
+  let manager: MCPConnectionManager;
+
+  beforeEach(async () => {
+    vi.stubGlobal('localStorage', createStorage());
+    vi.stubGlobal('sessionStorage', createStorage());
+    vi.stubGlobal('window', { location: { origin: 'http://localhost' } });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    // Same turns as the default script, without the demo latency
+    provider = new MockInferenceProvider({
+      name: 'Add tool',
+      loop: true,
+      steps: [
+        mockToolCalls('mock_call_add', [{ name: ADD_TOOL, arguments: { a: 2, b: 3 } }], 'Let me add those numbers.'),
+        mockText('2 + 3 = 5'),
+      ],
+    });
+    await provider.authenticate({ type: 'api_key' });
+
+    manager = new MCPConnectionManager('test-server', { name: SERVER_NAME, url: 'local', localServer: createTestServer });
+    await manager.connect();
+
+    inference = {
+      provider,
+      isAuthenticated: true,
+      generateResponse: request => provider.generateResponse(request),
+      generateStreamingResponse: (request, onChunk, signal) => provider.generateStreamingResponse(request, onChunk, signal),
+    };
+    mcp = {
+      connections: [manager.getConnection()],
+      getAllTools: () => manager.getConnection().tools,
+      callTool: (_connectionId, toolName, args, options) => manager.callTool(toolName, args, options),
+      getToolPolicy: () => 'allow',
+    };
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('calls the test server tool and sends its result back to the model', async () => {
+    const conversation = await runTurn(renderAgentLoop(), {
+      id: 'conversation',
+      title: 'Add',
+      messages: [userMessage('What is 2 + 3?')],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      status: 'thinking',
+    });
+
+    const [toolUse] = blocksOfType(conversation, 'tool_use');
+    expect(toolUse).toMatchObject({ name: ADD_TOOL, input: { a: 2, b: 3 } });
+
+    const [toolResult] = blocksOfType(conversation, 'tool_result');
+    expect(toolResult).toMatchObject({ tool_use_id: toolUse.id, is_error: false });
+    const resultText = (toolResult.content as Exclude<ToolResultBlock['content'], string>)[0].text!;
+    expect(JSON.parse(resultText).content).toEqual([{ type: 'text', text: '5' }]);
+
+    // The result reaches the model on the next request, and its answer ends the loop
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].messages).toContainEqual(
+      expect.objectContaining({ role: 'tool', toolCallId: toolUse.id, content: resultText })
+    );
+    expect(conversation.messages.map(message => message.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(conversation.messages[3].content).toEqual([{ type: 'text', text: '2 + 3 = 5' }]);
+    expect(conversation.status).toBe('idle');
+  });
+
+  it('gives each turn of a looping script its own tool call IDs', async () => {
+    const agentLoop = renderAgentLoop();
+    const firstTurn = await runTurn(agentLoop, {
+      id: 'conversation',
+      title: 'Add',
+      messages: [userMessage('What is 2 + 3?')],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      status: 'thinking',
+    });
+    const secondTurn = await runTurn(agentLoop, {
+      ...firstTurn,
+      messages: [...firstTurn.messages, userMessage('And again?')],
+    });
+
+    const toolUseIds = blocksOfType(secondTurn, 'tool_use').map(block => block.id);
+    expect(toolUseIds).toHaveLength(2);
+    expect(new Set(toolUseIds).size).toBe(2);
+    expect(blocksOfType(secondTurn, 'tool_result').map(block => block.tool_use_id)).toEqual(toolUseIds);
+  });
+});
@@ -0,0 +1,170 @@
+// Deterministic mock provider that replays a scripted sequence of responses.
+// Used to exercise the agent loop offline and in CI without a live API key.
+
+import { InferenceProvider } from '@/types/inference';
+import type {
+  Model,
+  InferenceRequest,
+  InferenceResponse,
+  InferenceStreamCallback,
+  AuthConfig,
+  ProviderCapabilities,
+} from '@/types/inference';
+import type { MockScript } from './types';
+import { defaultMockScript } from './scripts';
+
+const MOCK_MODEL: Model = {
+  id: 'mock-model',
+  name: 'Mock Model',
+  description: 'Replays a scripted sequence of responses',
+  contextLength: 0,
+  provider: 'mock',
+  capabilities: {
+    supportsVision: false,
+    maxTokens: 4096,
+  },
+};
+
+export class MockInferenceProvider extends InferenceProvider {
+  readonly name = 'Mock (Scripted)';
+  readonly id = 'mock';
+
+  // Every request received, in order, for inspection after a run
+  readonly requests: InferenceRequest[] = [];
+
+  private script: MockScript;
+  private stepIndex = 0;
+  private authenticated = false;
+  private _selectedModel?: Model;
+
+  constructor(script: MockScript = defaultMockScript) {
+    super();
+    this.script = script;
+  }
+
+  get isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  get authError(): string | undefined {
+    return undefined;
+  }
+
+  get models(): Model[] {
+    return this.authenticated ? [MOCK_MODEL] : [];
+  }
+
+  get selectedModel(): Model | undefined {
+    return this._selectedModel;
+  }
+
+  async authenticate(_config: AuthConfig): Promise<void> {
+    this.authenticated = true;
+    this._selectedModel = MOCK_MODEL;
+  }
+
+  logout(): void {
+    this.authenticated = false;
+    this._selectedModel = undefined;
+    this.reset();
+  }
+
+  async loadModels(): Promise<Model[]> {
+    if (!this.authenticated) {
+      throw new Error('Not authenticated');
+    }
+    return this.models;
+  }
+
+  selectModel(modelId: string): void {
+    if (modelId !== MOCK_MODEL.id) {
+      throw new Error(`Model ${modelId} not found`);
+    }
+    this._selectedModel = MOCK_MODEL;
+  }
+
+  // Replace the script and start again from its first step
+  setScript(script: MockScript): void {
+    this.script = script;
+    this.reset();
+  }
+
+  reset(): void {
+    this.stepIndex = 0;
+    this.requests.length = 0;
+  }
+
+  async generateResponse(request: InferenceRequest): Promise<InferenceResponse> {
+    if (!this.authenticated) {
+      throw new Error('Not authenticated');
+    }
+
+    this.requests.push(request);
+
+    if (this.stepIndex >= this.script.steps.length) {
+      if (!this.script.loop || this.script.steps.length === 0) {
+        throw new Error(`Mock script "${this.script.name}" is exhausted`);
+      }
+      this.stepIndex = 0;
+    }
+
+    const step = this.script.steps[this.stepIndex++];
+
+    if (step.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, step.latencyMs));
+    }
+
+    if (step.type === 'error') {
+      throw step.error;
+    }
+
+    // Copy so callers can't mutate the script
+    const response = structuredClone(step.response);
+
+    // Suffix tool call IDs with the request number so a looping script never
+    // repeats an ID within one conversation
+    response.message.toolCalls?.forEach(toolCall => {
+      toolCall.id = `${toolCall.id}_${this.requests.length}`;
+    });
+
+    return response;
+  }
+
+  async generateStreamingResponse(
+    request: InferenceRequest,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> {
+    const response = await this.generateResponse(request);
+
+    // Replay the text word by word so the streaming path is exercised too
+    if (typeof response.message.content === 'string') {
+      for (const word of response.message.content.match(/\S+\s*/g) || []) {
+        signal?.throwIfAborted();
+        onChunk({ type: 'text_delta', text: word });
+      }
+    }
+
+    response.message.toolCalls?.forEach((toolCall, index) => {
+      onChunk({
+        type: 'tool_call_delta',
+        toolCallIndex: index,
+        toolCallId: toolCall.id,
+        toolName: toolCall.function.name,
+        argumentsDelta: JSON.stringify(toolCall.function.arguments),
+      });
+    });
+
+    return response;
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      authMethods: [],
+      supportsModelListing: true,
+      supportsStreaming: true,
+      supportsCustomEndpoint: false,
+      requiresAuth: false,
+    };
+  }
+}
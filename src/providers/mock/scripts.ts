@@ -0,0 +1,101 @@
+// Builders for mock provider scripts and the default demo script
+
+import type { InferenceResponse, TokenUsage, InferenceError } from '@/types/inference';
+import type { MockScript, MockScriptStep } from './types';
+import { normalizeServerName } from '@/utils/mcpUtils';
+
+const MOCK_USAGE: TokenUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+};
+
+// Assistant reply that ends the turn
+export function mockText(text: string, latencyMs?: number): MockScriptStep {
+  return {
+    type: 'response',
+    latencyMs,
+    response: {
+      message: { role: 'assistant', content: text },
+      usage: MOCK_USAGE,
+      stopReason: 'stop',
+      finishReason: 'stop',
+    },
+  };
+}
+
+// Assistant reply cut off by the token limit
+export function mockMaxTokens(text: string, latencyMs?: number): MockScriptStep {
+  return {
+    type: 'response',
+    latencyMs,
+    response: {
+      message: { role: 'assistant', content: text },
+      usage: MOCK_USAGE,
+      stopReason: 'max_tokens',
+      finishReason: 'length',
+    },
+  };
+}
+
+// Assistant turn requesting one or more tool calls. IDs are derived from the
+// position in the script so runs are reproducible; the provider appends the
+// request number to keep them unique per turn.
+export function mockToolCalls(
+  id: string,
+  calls: { name: string; arguments: Record<string, any> }[],
+  text = '',
+  latencyMs?: number
+): MockScriptStep {
+  const response: InferenceResponse = {
+    message: {
+      role: 'assistant',
+      content: text,
+      toolCalls: calls.map((call, index) => ({
+        id: `${id}_${index}`,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: call.arguments,
+        },
+      })),
+    },
+    usage: MOCK_USAGE,
+    stopReason: 'tool_calls',
+    finishReason: 'tool_calls',
+  };
+
+  return { type: 'response', latencyMs, response };
+}
+
+// Provider failure surfaced as an InferenceError
+export function mockError(
+  type: InferenceError['type'],
+  message: string,
+  latencyMs?: number
+): MockScriptStep {
+  return {
+    type: 'error',
+    latencyMs,
+    error: {
+      type,
+      message,
+      retryable: type === 'network' || type === 'rate_limit',
+    },
+  };
+}
+
+// Exercises the in-memory test server's "add" tool, then answers with the result
+export const defaultMockScript: MockScript = {
+  name: 'In-memory add tool',
+  loop: true,
+  steps: [
+    mockToolCalls(
+      'mock_call_add',
+      [{ name: `${normalizeServerName('In-Memory Test Server')}__add`, arguments: { a: 2, b: 3 } }],
+      'Let me add those numbers.',
+      500
+    ),
+    mockText('2 + 3 = 5, according to the in-memory test server.', 500),
+  ],
+};
@@ -0,0 +1,14 @@
+// Mock provider script types
+
+import type { InferenceError, InferenceResponse } from '@/types/inference';
+
+// A single scripted turn. Each call to generateResponse consumes the next step.
+export type MockScriptStep =
+  | { type: 'response'; response: InferenceResponse; latencyMs?: number }
+  | { type: 'error'; error: InferenceError; latencyMs?: number };
+
+export interface MockScript {
+  name: string;
+  steps: MockScriptStep[];
+  loop?: boolean; // Restart from the first step once exhausted (default: throw)
+}
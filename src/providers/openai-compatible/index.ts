@@ -0,0 +1,4 @@
+// OpenAI-compatible provider exports
+
+export { OpenAICompatibleProvider } from './provider';
+export type { OpenAICompatibleConfig } from './types';
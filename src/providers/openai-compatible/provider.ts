@@ -0,0 +1,245 @@
+// Generic provider for any server speaking the OpenAI chat-completions dialect
+// (vLLM, Ollama, LM Studio, internal gateways...)
+
+import { InferenceProvider } from '@/types/inference';
+import type {
+  Model,
+  InferenceRequest,
+  InferenceResponse,
+  InferenceStreamCallback,
+  AuthConfig,
+  ProviderCapabilities,
+  InferenceError,
+} from '@/types/inference';
+import { OpenRouterClient } from '@/providers/openrouter/client';
+import type { OpenAICompatibleConfig } from './types';
+
+const STORAGE_KEY = 'openai_compatible_config';
+
+// Endpoint configuration saved after the last successful connection
+export function loadStoredOpenAICompatibleConfig(): OpenAICompatibleConfig | undefined {
+  const storedConfig = localStorage.getItem(STORAGE_KEY);
+  if (!storedConfig) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(storedConfig);
+  } catch {
+    return undefined;
+  }
+}
+
+export class OpenAICompatibleProvider extends InferenceProvider {
+  readonly name = 'OpenAI-Compatible';
+  readonly id = 'openai-compatible';
+
+  private client?: OpenRouterClient;
+  private config?: OpenAICompatibleConfig;
+  private _models: Model[] = [];
+  private _selectedModel?: Model;
+  private _authError?: string;
+
+  constructor(config?: OpenAICompatibleConfig) {
+    super();
+    if (config) {
+      this.configure(config);
+    } else {
+      // Load stored endpoint configuration
+      this.loadStoredConfig();
+    }
+  }
+
+  get isAuthenticated(): boolean {
+    return !!this.config && !this._authError;
+  }
+
+  get authError(): string | undefined {
+    return this._authError;
+  }
+
+  get models(): Model[] {
+    return this._models;
+  }
+
+  get selectedModel(): Model | undefined {
+    return this._selectedModel;
+  }
+
+  get baseUrl(): string | undefined {
+    return this.config?.baseUrl;
+  }
+
+  async authenticate(config: AuthConfig): Promise<void> {
+    if (config.type !== 'api_key' || !config.baseUrl) {
+      throw new Error('OpenAICompatibleProvider requires a base URL');
+    }
+
+    this.configure({
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey || undefined,
+      headers: config.headers,
+    });
+    this._authError = undefined;
+
+    try {
+      // Test the endpoint by loading models
+      await this.loadModels();
+
+      // Store configuration after successful validation
+      this.storeConfig();
+    } catch (error) {
+      this._authError = error instanceof Error ? error.message : 'Authentication failed';
+      this.config = undefined;
+      this.client = undefined;
+      throw error;
+    }
+  }
+
+  logout(): void {
+    this.config = undefined;
+    this.client = undefined;
+    this._authError = undefined;
+    this._models = [];
+    this._selectedModel = undefined;
+    this.clearStoredConfig();
+  }
+
+  async loadModels(): Promise<Model[]> {
+    if (!this.client || !this.config) {
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      this._models = await this.client.fetchModels(this.config.apiKey || '');
+
+      // Check if currently selected model is still in the list
+      if (this._selectedModel && !this._models.find(m => m.id === this._selectedModel!.id)) {
+        this._selectedModel = undefined;
+      }
+
+      // Set default model if none selected
+      if (!this._selectedModel && this._models.length > 0) {
+        this._selectedModel = this._models[0];
+      }
+
+      return this._models;
+    } catch (error) {
+      if (this.isInferenceError(error) && error.type === 'auth') {
+        this._authError = error.message;
+      }
+      throw error;
+    }
+  }
+
+  selectModel(modelId: string): void {
+    const model = this._models.find(m => m.id === modelId);
+    if (!model) {
+      throw new Error(`Model ${modelId} not found`);
+    }
+    this._selectedModel = model;
+  }
+
+  async generateResponse(request: InferenceRequest): Promise<InferenceResponse> {
+    if (!this.client || !this.config) {
+      throw new Error('Not authenticated');
+    }
+
+    // A model named on the request (e.g. by MCP sampling preferences) overrides the selection
+    const modelId = request.model || this._selectedModel?.id;
+    if (!modelId) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      return await this.client.generateResponse(
+        request,
+        modelId,
+        this.config.apiKey || ''
+      );
+    } catch (error) {
+      if (this.isInferenceError(error) && error.type === 'auth') {
+        this._authError = error.message;
+      }
+      throw error;
+    }
+  }
+
+  async generateStreamingResponse(
+    request: InferenceRequest,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> {
+    if (!this.client || !this.config) {
+      throw new Error('Not authenticated');
+    }
+
+    const modelId = request.model || this._selectedModel?.id;
+    if (!modelId) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      return await this.client.generateStreamingResponse(
+        request,
+        modelId,
+        this.config.apiKey || '',
+        onChunk,
+        signal
+      );
+    } catch (error) {
+      if (this.isInferenceError(error) && error.type === 'auth') {
+        this._authError = error.message;
+      }
+      throw error;
+    }
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      authMethods: ['api_key'],
+      supportsModelListing: true,
+      supportsStreaming: true,
+      supportsCustomEndpoint: true,
+      requiresAuth: false,
+    };
+  }
+
+  private configure(config: OpenAICompatibleConfig): void {
+    this.config = config;
+    this.client = new OpenRouterClient({
+      baseUrl: config.baseUrl,
+      headers: config.headers,
+      modelProvider: this.id,
+    });
+  }
+
+  private isInferenceError(error: any): error is InferenceError {
+    return error && typeof error === 'object' && 'type' in error && 'message' in error;
+  }
+
+  private storeConfig(): void {
+    if (this.config) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+    }
+  }
+
+  private loadStoredConfig(): void {
+    const storedConfig = loadStoredOpenAICompatibleConfig();
+    if (!storedConfig) {
+      // Nothing stored, or it couldn't be parsed
+      this.clearStoredConfig();
+      return;
+    }
+
+    this.configure(storedConfig);
+    // Try to load models to verify the endpoint is still reachable
+    this.loadModels().catch(() => {
+      // If loading fails, clear invalid configuration
+      this.logout();
+    });
+  }
+
+  private clearStoredConfig(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
@@ -0,0 +1,7 @@
+// OpenAI-compatible provider types and configurations
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;                  // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string;                  // Optional - many local servers don't require one
+  headers?: Record<string, string>; // Custom headers, e.g. for an internal gateway
+}
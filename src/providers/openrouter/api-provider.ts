@@ -5,6 +5,7 @@ import type {
   Model,
   InferenceRequest,
   InferenceResponse,
+  InferenceStreamCallback,
   AuthConfig,
   ProviderCapabilities,
   InferenceError,
@@ -129,14 +130,16 @@ export class OpenRouterApiProvider extends InferenceProvider {
       throw new Error('Not authenticated');
     }
 
-    if (!this._selectedModel) {
+    // A model named on the request (e.g. by MCP sampling preferences) overrides the selection
+    const modelId = request.model || this._selectedModel?.id;
+    if (!modelId) {
       throw new Error('No model selected');
     }
 
     try {
       return await this.client.generateResponse(
         request,
-        this._selectedModel.id,
+        modelId,
         this.apiKey
       );
     } catch (error) {
@@ -148,10 +151,43 @@ export class OpenRouterApiProvider extends InferenceProvider {
     }
   }
 
+  async generateStreamingResponse(
+    request: InferenceRequest,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> {
+    if (!this.apiKey) {
+      throw new Error('Not authenticated');
+    }
+
+    const modelId = request.model || this._selectedModel?.id;
+    if (!modelId) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      return await this.client.generateStreamingResponse(
+        request,
+        modelId,
+        this.apiKey,
+        onChunk,
+        signal
+      );
+    } catch (error) {
+      if (this.isInferenceError(error) && error.type === 'auth') {
+        this._authError = error.message;
+        this.apiKey = undefined;
+      }
+      throw error;
+    }
+  }
+
   getCapabilities(): ProviderCapabilities {
     return {
       authMethods: ['api_key'],
       supportsModelListing: true,
+      supportsStreaming: true,
+      supportsCustomEndpoint: false,
       requiresAuth: true,
     };
   }
@@ -3,6 +3,7 @@
 import type {
   InferenceRequest,
   InferenceResponse,
+  InferenceStreamCallback,
   InferenceError,
   ChatMessage,
   ToolCall,
@@ -13,22 +14,28 @@ import type {
   OpenRouterBaseConfig,
   OpenRouterChatRequest,
   OpenRouterChatResponse,
+  OpenRouterChatStreamChunk,
   OpenRouterModelsResponse,
   OpenRouterModel,
   OpenRouterMessage,
   OpenRouterToolCall,
   OpenRouterErrorResponse,
 } from './types';
+import { readEventStream } from '@/utils/eventStream';
 
 export class OpenRouterClient {
   private baseUrl: string;
   private httpReferrer?: string;
   private appName?: string;
+  private extraHeaders: Record<string, string>;
+  private modelProvider: string;
 
   constructor(config: OpenRouterBaseConfig) {
-    this.baseUrl = config.baseUrl || 'https://openrouter.ai/api/v1';
+    this.baseUrl = (config.baseUrl || 'https://openrouter.ai/api/v1').replace(/\/+$/, '');
     this.httpReferrer = config.httpReferrer;
     this.appName = config.appName;
+    this.extraHeaders = config.headers || {};
+    this.modelProvider = config.modelProvider || 'openrouter';
   }
 
   async makeRequest<T>(
@@ -36,14 +43,29 @@ export class OpenRouterClient {
     options: RequestInit,
     authToken: string
   ): Promise<T> {
+    const response = await this.fetchWithAuth(endpoint, options, authToken);
+    return await response.json() as T;
+  }
+
+  // Perform an authenticated request and return the raw response once it is known to be OK
+  private async fetchWithAuth(
+    endpoint: string,
+    options: RequestInit,
+    authToken: string
+  ): Promise<Response> {
     const url = `${this.baseUrl}${endpoint}`;
     
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${authToken}`,
+      ...this.extraHeaders,
       ...(options.headers as Record<string, string> || {}),
     };
 
+    // Local OpenAI-compatible servers often don't require a key
+    if (authToken) {
+      headers['Authorization'] = `Bearer ${authToken}`;
+    }
+
     if (this.httpReferrer) {
       headers['HTTP-Referer'] = this.httpReferrer;
     }
@@ -59,11 +81,14 @@ export class OpenRouterClient {
       });
 
       if (!response.ok) {
-        const errorData = await response.json() as OpenRouterErrorResponse;
+        // Not every OpenAI-compatible server returns a JSON error body
+        const errorData = await response.json().catch(() => ({
+          error: { type: 'http_error', message: response.statusText },
+        })) as OpenRouterErrorResponse;
         throw this.createInferenceError(response.status, errorData);
       }
 
-      return await response.json() as T;
+      return response;
     } catch (error) {
       if (error instanceof Error && error.name === 'TypeError') {
         // Network error
@@ -85,10 +110,11 @@ export class OpenRouterClient {
       authToken
     );
 
-    // Only return models that support tools
+    // Only return models that support tools. Servers that don't report supported
+    // parameters are assumed to support tools so their models remain selectable.
     return response.data
-      .filter(model => model.supported_parameters?.includes('tools'))
-      .map(this.parseModel);
+      .filter(model => !model.supported_parameters || model.supported_parameters.includes('tools'))
+      .map(model => this.parseModel(model));
   }
 
   async generateResponse(
@@ -96,9 +122,129 @@ export class OpenRouterClient {
     model: string,
     authToken: string
   ): Promise<InferenceResponse> {
+    const openRouterRequest = this.buildChatRequest(request, model);
+
+    const response = await this.makeRequest<OpenRouterChatResponse>(
+      '/chat/completions',
+      {
+        method: 'POST',
+        body: JSON.stringify(openRouterRequest),
+      },
+      authToken
+    );
+
+    return this.parseResponse(response);
+  }
+
+  async generateStreamingResponse(
+    request: InferenceRequest,
+    model: string,
+    authToken: string,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> {
+    const openRouterRequest: OpenRouterChatRequest = {
+      ...this.buildChatRequest(request, model),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const response = await this.fetchWithAuth(
+      '/chat/completions',
+      {
+        method: 'POST',
+        body: JSON.stringify(openRouterRequest),
+        signal,
+      },
+      authToken
+    );
+
+    // Accumulate deltas into the same shape as a non-streaming response
+    let id = '';
+    let responseModel = model;
+    let content = '';
+    let finishReason: OpenRouterChatResponse['choices'][0]['finish_reason'] | null = null;
+    let usage: OpenRouterChatResponse['usage'] | undefined;
+    const toolCalls: OpenRouterToolCall[] = [];
+
+    await readEventStream(response, (data) => {
+      const chunk = JSON.parse(data) as OpenRouterChatStreamChunk;
+
+      if (chunk.error) {
+        throw this.createInferenceError(500, { error: chunk.error });
+      }
+
+      id = chunk.id || id;
+      responseModel = chunk.model || responseModel;
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      const choice = chunk.choices?.[0];
+      if (!choice) return;
+
+      if (choice.delta.content) {
+        content += choice.delta.content;
+        onChunk({ type: 'text_delta', text: choice.delta.content });
+      }
+
+      for (const toolCallDelta of choice.delta.tool_calls || []) {
+        const existing = toolCalls[toolCallDelta.index];
+        if (!existing) {
+          toolCalls[toolCallDelta.index] = {
+            id: toolCallDelta.id || '',
+            type: 'function',
+            function: {
+              name: toolCallDelta.function?.name || '',
+              arguments: toolCallDelta.function?.arguments || '',
+            },
+          };
+        } else {
+          existing.function.name += toolCallDelta.function?.name || '';
+          existing.function.arguments += toolCallDelta.function?.arguments || '';
+        }
+
+        onChunk({
+          type: 'tool_call_delta',
+          toolCallIndex: toolCallDelta.index,
+          toolCallId: toolCallDelta.id,
+          toolName: toolCallDelta.function?.name,
+          argumentsDelta: toolCallDelta.function?.arguments || '',
+        });
+      }
+
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+    });
+
+    return this.parseResponse({
+      id,
+      model: responseModel,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: content || null,
+          tool_calls: toolCalls.length > 0 ? toolCalls.filter(Boolean) : undefined,
+        },
+        // Some providers omit the finish reason on streamed tool calls
+        finish_reason: finishReason || (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+      }],
+      usage: usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    });
+  }
+
+  private buildChatRequest(request: InferenceRequest, model: string): OpenRouterChatRequest {
+    const messages = request.messages.map(this.formatMessage);
+    // Chat completions have no separate system field, so the prompt leads the messages
+    if (request.systemPrompt) {
+      messages.unshift({ role: 'system', content: request.systemPrompt });
+    }
+
     const openRouterRequest: OpenRouterChatRequest = {
       model,
-      messages: request.messages.map(this.formatMessage),
+      messages,
       max_tokens: request.maxTokens,
       temperature: request.temperature,
       stop: request.stopSequences,
@@ -106,37 +252,28 @@ export class OpenRouterClient {
 
     // Add tools if provided
     if (request.tools && request.tools.length > 0) {
-      openRouterRequest.tools = request.tools;
+      openRouterRequest.tools = request.tools.map(tool => ({ type: tool.type, function: tool.function }));
       openRouterRequest.tool_choice = 'auto';
     }
 
-    const response = await this.makeRequest<OpenRouterChatResponse>(
-      '/chat/completions',
-      {
-        method: 'POST',
-        body: JSON.stringify(openRouterRequest),
-      },
-      authToken
-    );
-
-    return this.parseResponse(response);
+    return openRouterRequest;
   }
 
   private parseModel(openRouterModel: OpenRouterModel): Model {
-    const inputCost = parseFloat(openRouterModel.pricing.prompt);
-    const outputCost = parseFloat(openRouterModel.pricing.completion);
+    const inputCost = parseFloat(openRouterModel.pricing?.prompt ?? '');
+    const outputCost = parseFloat(openRouterModel.pricing?.completion ?? '');
 
     return {
       id: openRouterModel.id,
-      name: openRouterModel.name,
+      name: openRouterModel.name || openRouterModel.id,
       description: openRouterModel.description,
-      contextLength: openRouterModel.context_length,
+      contextLength: openRouterModel.context_length || openRouterModel.max_model_len || 0, // 0 = unknown
       inputCost: isNaN(inputCost) ? undefined : inputCost * 1000000, // Convert to per-token
       outputCost: isNaN(outputCost) ? undefined : outputCost * 1000000,
-      provider: 'openrouter',
+      provider: this.modelProvider,
       capabilities: {
-        supportsVision: openRouterModel.architecture.modality.includes('vision'),
-        maxTokens: openRouterModel.top_provider.max_completion_tokens || 4096,
+        supportsVision: openRouterModel.architecture?.modality.includes('vision') || false,
+        maxTokens: openRouterModel.top_provider?.max_completion_tokens || 4096,
       },
     };
   }
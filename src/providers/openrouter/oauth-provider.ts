@@ -5,12 +5,14 @@ import type {
   Model,
   InferenceRequest,
   InferenceResponse,
+  InferenceStreamCallback,
   AuthConfig,
   ProviderCapabilities,
   InferenceError,
 } from '@/types/inference';
 import { OpenRouterClient } from './client';
 import type { OpenRouterOAuthConfig } from './types';
+import { redirectForAuthorization, type OAuthRedirectResult } from '@/utils/oauthRedirect';
 
 interface OAuthState {
   codeVerifier: string;
@@ -136,14 +138,16 @@ export class OpenRouterOAuthProvider extends InferenceProvider {
       throw new Error('Not authenticated');
     }
 
-    if (!this._selectedModel) {
+    // A model named on the request (e.g. by MCP sampling preferences) overrides the selection
+    const modelId = request.model || this._selectedModel?.id;
+    if (!modelId) {
       throw new Error('No model selected');
     }
 
     try {
       return await this.client.generateResponse(
         request,
-        this._selectedModel.id,
+        modelId,
         this.accessToken
       );
     } catch (error) {
@@ -166,10 +170,54 @@ export class OpenRouterOAuthProvider extends InferenceProvider {
     }
   }
 
+  async generateStreamingResponse(
+    request: InferenceRequest,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> {
+    if (!this.accessToken) {
+      throw new Error('Not authenticated');
+    }
+
+    const modelId = request.model || this._selectedModel?.id;
+    if (!modelId) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      return await this.client.generateStreamingResponse(
+        request,
+        modelId,
+        this.accessToken,
+        onChunk,
+        signal
+      );
+    } catch (error) {
+      if (this.isInferenceError(error) && error.type === 'auth') {
+        // Try to refresh token
+        if (this.refreshToken) {
+          try {
+            await this.refreshAccessToken();
+            return await this.generateStreamingResponse(request, onChunk, signal); // Retry with new token
+          } catch (refreshError) {
+            this._authError = 'Token refresh failed';
+            this.logout();
+          }
+        } else {
+          this._authError = error.message;
+          this.accessToken = undefined;
+        }
+      }
+      throw error;
+    }
+  }
+
   getCapabilities(): ProviderCapabilities {
     return {
       authMethods: ['oauth'],
       supportsModelListing: true,
+      supportsStreaming: true,
+      supportsCustomEndpoint: false,
       requiresAuth: true,
     };
   }
@@ -203,7 +251,10 @@ export class OpenRouterOAuthProvider extends InferenceProvider {
     );
 
     if (!popup) {
-      throw new Error('Failed to open OAuth popup. Please allow popups for this site.');
+      // Popup blocked: continue in this tab. The PKCE state stored above is read back by completeRedirect
+      redirectForAuthorization('inference', authUrl.toString());
+      // The page is unloading, so never settle rather than let callers act on a half-finished sign-in
+      return new Promise(() => {});
     }
 
     // Wait for OAuth callback
@@ -245,6 +296,20 @@ export class OpenRouterOAuthProvider extends InferenceProvider {
     });
   }
 
+  // Finish a sign-in that returned through a same-tab redirect instead of the popup
+  async completeRedirect(result: OAuthRedirectResult): Promise<void> {
+    try {
+      if (result.error || !result.code || !result.state) {
+        localStorage.removeItem('openrouter_oauth_state');
+        throw new Error(result.error || 'Invalid OAuth callback - missing code or state');
+      }
+      await this.handleOAuthCallback(result.code, result.state);
+    } catch (error) {
+      this._authError = error instanceof Error ? error.message : 'OAuth authentication failed';
+      throw error;
+    }
+  }
+
   private async handleOAuthCallback(code: string, state: string): Promise<void> {
     // Verify state
     const storedStateJson = localStorage.getItem('openrouter_oauth_state');
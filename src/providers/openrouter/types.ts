@@ -5,6 +5,8 @@ export interface OpenRouterBaseConfig {
   defaultModel?: string;
   httpReferrer?: string;
   appName?: string;
+  headers?: Record<string, string>; // Extra headers sent with every request
+  modelProvider?: string; // Reported as Model.provider, defaults to 'openrouter'
 }
 
 export interface OpenRouterApiConfig extends OpenRouterBaseConfig {
@@ -16,25 +18,28 @@ export interface OpenRouterOAuthConfig extends OpenRouterBaseConfig {
   redirectUri?: string;
 }
 
-// OpenRouter API response types
+// OpenRouter API response types. Only `id` is guaranteed by other OpenAI-compatible
+// servers (vLLM, Ollama, LM Studio...), so OpenRouter's extensions are optional.
 export interface OpenRouterModel {
   id: string;
-  name: string;
+  name?: string;
   description?: string;
-  context_length: number;
-  pricing: {
+  context_length?: number;
+  pricing?: {
     prompt: string;
     completion: string;
   };
-  top_provider: {
+  top_provider?: {
     max_completion_tokens?: number;
   };
-  architecture: {
+  architecture?: {
     modality: string;
     tokenizer: string;
     instruct_type?: string;
   };
   supported_parameters?: string[];
+  owned_by?: string;      // OpenAI
+  max_model_len?: number; // vLLM
 }
 
 export interface OpenRouterModelsResponse {
@@ -50,6 +55,9 @@ export interface OpenRouterChatRequest {
   temperature?: number;
   stop?: string[];
   stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
+  };
 }
 
 export interface OpenRouterMessage {
@@ -104,6 +112,37 @@ export interface OpenRouterChatResponse {
   model: string;
 }
 
+// Streaming (SSE) chunk types
+export interface OpenRouterToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string; // Partial JSON fragment
+  };
+}
+
+export interface OpenRouterChatStreamChunk {
+  id: string;
+  choices: {
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string | null;
+      tool_calls?: OpenRouterToolCallDelta[];
+    };
+    finish_reason: 'stop' | 'length' | 'tool_calls' | 'content_filter' | null;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  model: string;
+  error?: OpenRouterErrorResponse['error']; // Mid-stream errors are reported in-band
+}
+
 export interface OpenRouterErrorResponse {
   error: {
     type: string;
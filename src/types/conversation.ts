@@ -1,6 +1,7 @@
 // Conversation and agent loop types that extend existing inference types
 
 import type { ChatMessage, ToolCall, Tool } from './inference';
+import type { MCPToolProgress } from './mcp';
 
 // Extend ContentBlock to support tool use and tool result blocks
 export interface ToolUseBlock {
@@ -22,8 +23,19 @@ export interface TextBlock {
   text: string;
 }
 
+// MCP resource attached to a user message (contents captured from resources/read)
+export interface ResourceBlock {
+  type: 'resource';
+  uri: string;
+  serverName: string;
+  name?: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // Base64-encoded binary content
+}
+
 // Union of all content block types
-export type ConversationContentBlock = TextBlock | ToolUseBlock | ToolResultBlock;
+export type ConversationContentBlock = TextBlock | ToolUseBlock | ToolResultBlock | ResourceBlock;
 
 // Extend ChatMessage for conversation persistence with structured content
 export interface ConversationMessage extends Omit<ChatMessage, 'content'> {
@@ -41,14 +53,25 @@ export interface Conversation {
   status: 'idle' | 'thinking' | 'calling_tools' | 'error';
   error?: string;
   // Track ongoing tool calls for UI display
-  pendingToolCalls?: {
-    id: string;
-    name: string;
-    input: Record<string, any>;
-    startedAt: Date;
-  }[];
+  pendingToolCalls?: PendingToolCall[];
+}
+
+export interface PendingToolCall {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+  status: 'queued' | 'awaiting_approval' | 'running' | 'completed' | 'error' | 'denied';
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+  progress?: MCPToolProgress;  // Latest notifications/progress from the server
 }
 
+// User response to a tool call waiting for approval
+export type ToolApprovalDecision =
+  | { action: 'approve'; input?: Record<string, any> } // input replaces the model's arguments when edited
+  | { action: 'deny'; reason?: string };
+
 export interface AgentLoopState {
   isRunning: boolean;
   conversationId: string;
@@ -74,13 +97,21 @@ export interface ConversationContextValue {
   getConversation: (conversationId: string) => Conversation | undefined;
   
   // Message operations
-  addUserMessage: (conversationId: string, content: string) => void;
+  addUserMessage: (conversationId: string, content: string, attachments?: ResourceBlock[]) => void;
+  
+  // Resources attached to the next user message
+  pendingAttachments: ResourceBlock[];
+  attachResource: (attachment: ResourceBlock) => void;
+  removeAttachment: (uri: string) => void;
+  clearAttachments: () => void;
   
   // Agent loop operations
-  sendMessage: (conversationId: string, content: string) => Promise<void>;
+  sendMessage: (conversationId: string, content: string, attachments?: ResourceBlock[]) => Promise<void>;
+  sendPrompt: (conversationId: string, connectionId: string, promptName: string, args: Record<string, string>) => Promise<void>; // Insert prompts/get messages, then run the loop
   continueConversation: (conversationId: string) => Promise<void>; // Continue after tool calls or follow-ups
   stopAgentLoop: (conversationId: string) => void;
   getAgentLoopState: (conversationId: string) => AgentLoopState | undefined;
+  resolveToolApproval: (conversationId: string, toolCallId: string, decision: ToolApprovalDecision) => void;
 }
 
 export interface AgentLoopConfig {
@@ -88,6 +119,8 @@ export interface AgentLoopConfig {
   systemMessage?: string;
   temperature?: number;
   stopOnError: boolean;
+  streamResponses: boolean; // Push partial assistant text into the conversation as it arrives
+  maxConcurrentToolCalls: number; // Tool calls from one assistant turn run in parallel up to this cap
 }
 
 // Test tools that can be used alongside MCP tools
@@ -103,6 +136,7 @@ export interface UseAgentLoopReturn {
   ) => Promise<void>;
   stopLoop: (conversationId: string) => void;
   getLoopState: (conversationId: string) => AgentLoopState | undefined;
+  resolveToolApproval: (conversationId: string, toolCallId: string, decision: ToolApprovalDecision) => void;
 }
 
 export type AgentLoopHook = (config?: Partial<AgentLoopConfig>) => UseAgentLoopReturn;
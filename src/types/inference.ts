@@ -10,7 +10,8 @@ export interface InferenceMessage {
   model?: string;
   request?: InferenceRequest;
   response?: InferenceResponse;
-  streamChunk?: any;
+  streamChunk?: InferenceStreamChunk; // Latest chunk received
+  streamChunks?: InferenceStreamChunk[]; // All chunks received so far for this request
   error?: any;
   duration?: number; // Response time in ms
 }
@@ -55,6 +56,14 @@ export interface ToolCall {
   };
 }
 
+// Behaviour hints reported by MCP servers. These are untrusted hints, not guarantees.
+export interface ToolAnnotations {
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
 export interface Tool {
   type: 'function';
   function: {
@@ -62,11 +71,14 @@ export interface Tool {
     description?: string;
     parameters: Record<string, any>; // JSON schema
   };
+  // Client-side metadata, never sent to inference providers
+  title?: string;
+  annotations?: ToolAnnotations;
 }
 
 export interface InferenceRequest {
   messages: ChatMessage[];
-  model?: string;
+  model?: string; // Overrides the provider's selected model
   systemPrompt?: string;
   tools?: Tool[]; // toolChoice defaults to 'auto' when tools provided
   maxTokens?: number;
@@ -82,6 +94,18 @@ export interface InferenceResponse {
   error?: string;
 }
 
+// Incremental delta emitted while a streaming response is in progress
+export interface InferenceStreamChunk {
+  type: 'text_delta' | 'tool_call_delta';
+  text?: string;             // for text_delta
+  toolCallIndex?: number;    // for tool_call_delta - position of the call in the message
+  toolCallId?: string;       // only present on the first delta of a tool call
+  toolName?: string;         // only present on the first delta of a tool call
+  argumentsDelta?: string;   // raw JSON fragment of the tool call arguments
+}
+
+export type InferenceStreamCallback = (chunk: InferenceStreamChunk) => void;
+
 export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
@@ -97,11 +121,15 @@ export interface AuthConfig {
     redirectUri?: string;
     scopes?: string[];
   };
+  baseUrl?: string;                 // For providers with a configurable endpoint
+  headers?: Record<string, string>; // Custom headers sent with every request
 }
 
 export interface ProviderCapabilities {
   authMethods: ('api_key' | 'oauth')[];
   supportsModelListing: boolean;
+  supportsStreaming: boolean;
+  supportsCustomEndpoint: boolean; // Accepts baseUrl/headers in AuthConfig
   requiresAuth: boolean;
 }
 
@@ -121,6 +149,25 @@ export abstract class InferenceProvider {
   abstract readonly selectedModel?: Model;
 
   abstract generateResponse(request: InferenceRequest): Promise<InferenceResponse>;
+
+  // Streaming variant of generateResponse. Chunks are delivered through onChunk as they
+  // arrive and the fully assembled response is returned at the end; aborting the signal
+  // cancels the request. Providers without native streaming fall back to a single
+  // blocking request emitted as one chunk.
+  async generateStreamingResponse(
+    request: InferenceRequest,
+    onChunk: InferenceStreamCallback,
+    signal?: AbortSignal
+  ): Promise<InferenceResponse> {
+    const response = await this.generateResponse(request);
+    // The blocking request can't be cancelled, but a caller that stopped gets no chunk
+    signal?.throwIfAborted();
+    if (typeof response.message.content === 'string' && response.message.content) {
+      onChunk({ type: 'text_delta', text: response.message.content });
+    }
+    return response;
+  }
+
   abstract loadModels(): Promise<Model[]>;
   abstract selectModel(modelId: string): void;
   abstract authenticate(config: AuthConfig): Promise<void>;
@@ -2,14 +2,25 @@
 
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import type { Tool } from './inference';
-import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  JSONRPCMessage,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitRequestFormParams,
+  ElicitResult,
+  LoggingLevel,
+  LoggingMessageNotification,
+  ServerCapabilities,
+} from '@modelcontextprotocol/sdk/types.js';
 import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import type { TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.d.ts';
 
 export interface MCPServerConfig {
   name: string;                 // User-provided display name
   url: string;                  // Server endpoint URL (or 'local' for in-memory servers)
-  authType?: 'none' | 'oauth'; // Default: none
+  authType?: MCPAuthType;       // Default: none
+  transport?: MCPTransportPreference; // Default: auto
   oauthConfig?: {
     clientId?: string;
     authUrl?: string;           // OAuth authorization endpoint
@@ -17,8 +28,52 @@ export interface MCPServerConfig {
     scope?: string;             // OAuth scope
     redirectUri?: string;       // Override default redirect URI
   };
-  maxReconnectAttempts?: number; // Default: 5
+  maxReconnectAttempts?: number; // Automatic reconnects after a dropped connection. Default: 5
   localServer?: () => any;      // Function to create the local server instance (when url === 'local')
+  toolPolicies?: ToolApprovalPolicies; // Whether tool calls need user approval
+  roots?: MCPRoot[];            // Roots shared only with this server, in addition to the global ones
+  logLevel?: LoggingLevel;      // Sent with logging/setLevel on every connect
+}
+
+// 'bearer' and 'headers' send static credentials, kept outside this config (see MCPStaticCredentials)
+export type MCPAuthType = 'none' | 'oauth' | 'bearer' | 'headers';
+
+// Secrets for static auth, stored per connection apart from mcp_connections so exported configs don't leak them
+export interface MCPStaticCredentials {
+  bearerToken?: string;         // Sent as Authorization: Bearer <token> when authType is 'bearer'
+  headers?: Record<string, string>; // Sent as-is when authType is 'headers'
+}
+
+// OAuth data stored for one connection, as listed in the Authorizations panel
+export interface MCPAuthorizationInfo {
+  connectionId: string;
+  serverName: string;
+  serverUrl: string;
+  clientId?: string;            // Dynamic client registration, shared by connections to the same server
+  clientIdIssuedAt?: Date;
+  scope?: string;               // Scopes granted with the current token
+  expiresAt?: Date;             // When the access token expires
+  lastUsedAt?: Date;            // Last time the token was attached to a request
+  hasAccessToken: boolean;
+  hasRefreshToken: boolean;
+  authorizationPending: boolean; // An authorization was started but hasn't completed
+}
+
+// Which HTTP transport to connect with. 'auto' tries Streamable HTTP, then falls back to SSE
+export type MCPTransportPreference = 'auto' | 'streamable-http' | 'sse';
+
+// Workspace root exposed to servers through roots/list
+export interface MCPRoot {
+  uri: string;                  // Must be a file:// URI
+  name?: string;
+}
+
+// How a tool call is handled before execution
+export type ToolApprovalPolicy = 'allow' | 'ask' | 'deny';
+
+export interface ToolApprovalPolicies {
+  default?: ToolApprovalPolicy;                 // Server-wide policy. Default: ask
+  tools?: Record<string, ToolApprovalPolicy>;   // Per-tool overrides, keyed by unprefixed tool name
 }
 
 export interface MCPMessage {
@@ -51,6 +106,20 @@ export interface MCPMonitorMessage {
   extra?: { authInfo?: AuthInfo; options?: TransportSendOptions };
 }
 
+// notifications/message log entry from a server
+export type MCPLogLevel = LoggingLevel;
+export type MCPLogCallback = (connection: MCPConnection, params: LoggingMessageNotification['params']) => void;
+
+export interface MCPLogEntry {
+  id: string;
+  timestamp: Date;
+  connectionId: string;
+  serverName: string;
+  level: MCPLogLevel;
+  logger?: string;
+  data: unknown;                // Any JSON value, per the spec
+}
+
 export interface MCPResource {
   uri: string;
   name: string;
@@ -58,6 +127,34 @@ export interface MCPResource {
   mimeType?: string;
 }
 
+export interface MCPResourceTemplate {
+  uriTemplate: string;          // RFC 6570 URI template
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// One item returned by resources/read. Exactly one of text or blob is set.
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;                // Base64-encoded binary content
+}
+
+// Resource the user subscribed to with resources/subscribe
+export interface MCPResourceSubscription {
+  uri: string;
+  contents?: MCPResourceContents[]; // Latest contents, re-read on notifications/resources/updated
+  updatedAt?: Date;             // When the last update notification arrived
+  hasUnseenUpdate: boolean;     // Cleared once the user has looked at the update
+}
+
+export type MCPResourceUpdateCallback = (
+  connection: MCPConnection,
+  subscription: MCPResourceSubscription
+) => void;
+
 export interface MCPPrompt {
   name: string;
   description?: string;
@@ -68,6 +165,106 @@ export interface MCPPrompt {
   }>;
 }
 
+// notifications/progress update for a running tool call
+export interface MCPToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface MCPToolCallOptions {
+  signal?: AbortSignal;         // Aborting sends notifications/cancelled to the server
+  onProgress?: (progress: MCPToolProgress) => void; // Setting this sends a progressToken
+}
+
+// What completion/complete is asked about: a prompt argument or a resource template variable
+export type MCPCompletionRef =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string }; // uri is the URI template
+
+export interface MCPCompletionRequest {
+  ref: MCPCompletionRef;
+  argument: { name: string; value: string };
+  context?: Record<string, string>; // Values already entered for the other arguments
+}
+
+// Content of a message returned by prompts/get
+export type MCPPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string } // Base64-encoded data
+  | { type: 'resource'; resource: MCPResourceContents };
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPPromptContent;
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// sampling/createMessage requests sent by servers
+export type MCPSamplingRequest = CreateMessageRequest['params'];
+export type MCPSamplingResult = CreateMessageResult;
+export type MCPSamplingHandler = (
+  connection: MCPConnection,
+  request: MCPSamplingRequest,
+  signal: AbortSignal
+) => Promise<MCPSamplingResult>;
+
+// Sampling request waiting for the user to approve it
+export interface PendingSamplingRequest {
+  id: string;
+  connectionId: string;
+  serverName: string;
+  request: MCPSamplingRequest;
+  modelId?: string;             // Model chosen from the server's preferences
+  createdAt: Date;
+}
+
+// elicitation/create requests sent by servers. Only form mode is supported.
+export type MCPElicitationRequest = ElicitRequest['params'];
+export type MCPElicitationResult = ElicitResult;
+export type MCPElicitationHandler = (
+  connection: MCPConnection,
+  request: MCPElicitationRequest,
+  signal: AbortSignal
+) => Promise<MCPElicitationResult>;
+
+// Elicitation form waiting for the user to fill in
+export interface PendingElicitationRequest {
+  id: string;
+  connectionId: string;
+  serverName: string;
+  request: ElicitRequestFormParams;
+  createdAt: Date;
+}
+
+// Paged list that discovery is loading or has loaded
+export type MCPDiscoveryKind = 'tools' | 'resources' | 'resourceTemplates' | 'prompts';
+
+export interface MCPDiscoveryProgress {
+  kind: MCPDiscoveryKind;
+  pagesLoaded: number;
+  itemsLoaded: number;
+}
+
+// Outcome of one transport attempt during connect, kept so failures can be explained
+export interface MCPTransportDiagnostic {
+  transport: 'sse' | 'streamable-http' | 'inmemory';
+  startedAt: Date;
+  durationMs: number;
+  succeeded: boolean;
+  resumedSession?: boolean;     // Tried to rejoin a session persisted before a page reload
+  error?: string;
+  httpStatus?: number;          // Last HTTP status the server returned during the attempt
+  likelyCors?: boolean;         // A request failed without a readable response
+  missingExposeHeaders?: boolean; // Mcp-Session-Id wasn't readable, so follow-up requests were rejected
+  authChallenge?: boolean;      // Server answered 401 or sent WWW-Authenticate
+  hint?: string;                // Plain-language explanation of the failure
+}
+
 export interface MCPConnection {
   id: string;                    // Unique connection identifier
   name: string;                  // User-provided server name
@@ -75,17 +272,26 @@ export interface MCPConnection {
   status: 'connecting' | 'connected' | 'failed' | 'disconnected';
   client?: Client;               // MCP SDK client instance
   transport?: 'sse' | 'streamable-http' | 'inmemory';
-  authType?: 'none' | 'oauth';
+  authType?: MCPAuthType;
   
   // Available capabilities
   tools: Tool[];                 // Tools with name-prefixed identifiers
   resources: MCPResource[];      // Available resources
+  resourceTemplates: MCPResourceTemplate[]; // Parameterized resources
   prompts: MCPPrompt[];         // Available prompts
+  serverCapabilities?: ServerCapabilities; // As reported by the server during initialization
+  subscriptions: MCPResourceSubscription[]; // Resources subscribed to on this connection
+  discoveryProgress?: MCPDiscoveryProgress; // Set while a paged list is being loaded
+  truncatedLists?: MCPDiscoveryKind[]; // Lists cut off at the discovery page cap
   
   // Connection metadata
   error?: string;               // Last error message
   lastConnected?: Date;         // Last successful connection
   connectionAttempts: number;   // Number of reconnection attempts
+  nextReconnectAt?: Date;       // When the next automatic reconnect runs, if one is scheduled
+  reauthRequired?: boolean;     // The OAuth refresh token was rejected; the user must sign in again
+  pendingAuthorizationUrl?: string; // Authorization whose popup was blocked, which can continue in this tab
+  transportDiagnostics?: MCPTransportDiagnostic[]; // One entry per transport tried on the last connect
   
   // Configuration
   config: MCPServerConfig;
@@ -100,10 +306,24 @@ export interface MCPConnectionManager {
   // Capability discovery
   discoverTools(): Promise<Tool[]>;
   discoverResources(): Promise<MCPResource[]>;
+  discoverResourceTemplates(): Promise<MCPResourceTemplate[]>;
   discoverPrompts(): Promise<MCPPrompt[]>;
   
   // Tool execution
-  callTool(toolName: string, args: any): Promise<any>;
+  callTool(toolName: string, args: any, options?: MCPToolCallOptions): Promise<any>;
+  
+  // Resource access
+  readResource(uri: string): Promise<MCPResourceContents[]>;
+  subscribeResource(uri: string): Promise<void>;
+  unsubscribeResource(uri: string): Promise<void>;
+  markResourceUpdateSeen(uri: string): void;
+  setResourceUpdateCallback(callback: MCPResourceUpdateCallback): void;
+  
+  // Prompt access
+  getPrompt(name: string, args: Record<string, string>): Promise<MCPPromptResult>;
+  
+  // Argument completion
+  complete(request: MCPCompletionRequest, signal?: AbortSignal): Promise<string[]>;
   
   // Status
   getStatus(): MCPConnection['status'];
@@ -111,6 +331,17 @@ export interface MCPConnectionManager {
   
   // Connection state updates
   setConnectionUpdateCallback(callback: () => void): void;
+  updateConfig(config: Partial<MCPServerConfig>): void;
+  
+  // Server-initiated requests (set before connecting so the capability is advertised)
+  setSamplingHandler(handler: MCPSamplingHandler): void;
+  setElicitationHandler(handler: MCPElicitationHandler): void;
+  setRootsProvider(provider: (connection: MCPConnection) => MCPRoot[]): void;
+  sendRootsListChanged(): Promise<void>;
+  
+  // Server logging
+  setLogCallback(callback: MCPLogCallback): void;
+  setLogLevel(level: MCPLogLevel): Promise<void>;
 }
 
 export interface MCPError {
@@ -128,18 +359,34 @@ export interface MCPContextValue {
   error: string | null;
   
   // Connection management
-  addMcpServer: (config: MCPServerConfig) => Promise<string>; // Returns connection ID
+  addMcpServer: (config: MCPServerConfig, credentials?: MCPStaticCredentials) => Promise<string>; // Returns connection ID
   removeMcpServer: (connectionId: string) => void;
   reconnectServer: (connectionId: string) => Promise<void>;
   
   // Tool access (explicit server routing)
   getAllTools: () => Tool[];                    // All tools with prefixed names
   getToolsForServer: (connectionId: string) => Tool[];
-  callTool: (connectionId: string, toolName: string, args: any) => Promise<any>;
+  callTool: (connectionId: string, toolName: string, args: any, options?: MCPToolCallOptions) => Promise<any>;
   
   // Resource access
   getAllResources: () => MCPResource[];
   getResourcesForServer: (connectionId: string) => MCPResource[];
+  readResource: (connectionId: string, uri: string) => Promise<MCPResourceContents[]>;
+  
+  // Resource subscriptions (kept across reconnects)
+  subscribeResource: (connectionId: string, uri: string) => Promise<void>;
+  unsubscribeResource: (connectionId: string, uri: string) => Promise<void>;
+  markResourceUpdateSeen: (connectionId: string, uri: string) => void;
+  addResourceUpdateCallback: (callback: MCPResourceUpdateCallback) => string; // Returns callback ID
+  removeResourceUpdateCallback: (callbackId: string) => void;
+  resourceUpdateNotes: boolean; // Add a note to the active conversation when an attached resource changes
+  setResourceUpdateNotes: (enabled: boolean) => void;
+  
+  // Prompt access
+  getPrompt: (connectionId: string, name: string, args: Record<string, string>) => Promise<MCPPromptResult>;
+  
+  // Suggestions for a prompt argument or resource template variable (empty if unsupported)
+  complete: (connectionId: string, request: MCPCompletionRequest, signal?: AbortSignal) => Promise<string[]>;
   
   // Status and debugging
   getConnectedServers: () => MCPConnection[];
@@ -149,8 +396,37 @@ export interface MCPContextValue {
   // Connection configuration
   updateServerConfig: (connectionId: string, config: Partial<MCPServerConfig>) => void;
   
+  // Tool approval policies (toolName may be prefixed or unprefixed; omit it for the server default).
+  // Passing an undefined policy for a tool clears its override.
+  getToolPolicy: (connectionId: string, toolName: string) => ToolApprovalPolicy;
+  setToolPolicy: (connectionId: string, toolName: string | undefined, policy: ToolApprovalPolicy | undefined) => void;
+  
+  // Roots (global roots are shared with every server, per-connection roots live in the server config)
+  roots: MCPRoot[];
+  setRoots: (roots: MCPRoot[]) => void;
+  setConnectionRoots: (connectionId: string, roots: MCPRoot[]) => void;
+  getRootsForConnection: (connectionId: string) => MCPRoot[];
+  
+  // Sampling requests from servers awaiting user approval
+  samplingRequests: PendingSamplingRequest[];
+  resolveSamplingRequest: (requestId: string, approved: boolean) => void;
+  
+  // Elicitation forms from servers awaiting user input
+  elicitationRequests: PendingElicitationRequest[];
+  resolveElicitationRequest: (requestId: string, result: MCPElicitationResult) => void;
+  
   // OAuth handling
   handleOAuthCallback: (connectionId: string, authorizationCode: string) => Promise<void>;
+  getAuthorizations: () => MCPAuthorizationInfo[];
+  revokeAuthorization: (connectionId: string) => Promise<boolean>; // False if the server can't revoke tokens
+  forgetClientRegistration: (connectionId: string) => void; // Affects every connection to the same server
+  reauthorize: (connectionId: string) => Promise<void>;
+  continueAuthorizationInTab: (connectionId: string) => void; // Full-page redirect when the popup was blocked
+  
+  // Server logs (notifications/message), oldest first
+  logs: MCPLogEntry[];
+  setLogLevel: (connectionId: string, level: MCPLogLevel) => Promise<void>;
+  clearLogs: (connectionId?: string) => void;
   
   // Message monitoring
   messages: MCPMonitorMessage[];
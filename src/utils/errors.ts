@@ -0,0 +1,15 @@
+// Error message extraction for errors caught as unknown
+
+/**
+ * Message of a caught error. MCP errors are plain objects with a message rather than
+ * Error instances, so those are read too; anything else gets the fallback.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string' && error.message) {
+    return error.message;
+  }
+  return fallback;
+}
@@ -0,0 +1,45 @@
+// Server-sent event stream parsing shared by streaming inference clients
+
+import type { InferenceError } from '@/types/inference';
+
+/**
+ * Read a server-sent event stream, invoking onData with the payload of each data line.
+ * Stops at the end of the stream or at an OpenAI-style "[DONE]" sentinel.
+ */
+export async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) {
+    throw {
+      type: 'provider_error',
+      message: 'Streaming response has no body',
+      retryable: false,
+    } as InferenceError;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || ''; // Keep the trailing partial line for the next read
+
+      for (const rawLine of lines) {
+        const line = rawLine.trim();
+        // Skip blank separators, event names and comments (e.g. ": OPENROUTER PROCESSING")
+        if (!line.startsWith('data:')) continue;
+
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+
+        onData(data);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
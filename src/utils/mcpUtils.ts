@@ -1,4 +1,7 @@
-// Utility functions for MCP server name normalization
+// Utility functions for MCP server and tool name normalization
+
+import type { Model, Tool } from '@/types/inference';
+import type { MCPSamplingRequest } from '@/types/mcp';
 
 /**
  * Normalize server name to comply with OpenRouter API tool naming requirements
@@ -11,4 +14,58 @@ export function normalizeServerName(name: string): string {
     .replace(/^_+|_+$/g, '')          // Remove leading/trailing underscores
     .substring(0, 32)                 // Limit length to leave room for tool name
     || 'server';                      // Fallback if name becomes empty
-}
\ No newline at end of file
+}
+
+/**
+ * Strip the "normalized_server__" prefix added to MCP tool names during discovery
+ */
+export function unprefixToolName(serverName: string, toolName: string): string {
+  const prefix = `${normalizeServerName(serverName)}__`;
+  return toolName.startsWith(prefix) ? toolName.slice(prefix.length) : toolName;
+}
+
+/**
+ * Tools that declare they don't modify their environment
+ */
+export function isReadOnlyTool(tool: Tool): boolean {
+  return tool.annotations?.readOnlyHint === true;
+}
+
+/**
+ * Tools that explicitly declare destructive updates. The spec defaults
+ * destructiveHint to true, but unannotated tools aren't flagged to avoid noise.
+ */
+export function isDestructiveTool(tool: Tool): boolean {
+  return !isReadOnlyTool(tool) && tool.annotations?.destructiveHint === true;
+}
+
+/**
+ * Pick a model for a sampling request. Name hints are tried in order as substrings
+ * of the model id or name; if none match and cost is the server's top priority,
+ * the cheapest priced model is used. Otherwise the fallback (selected) model wins.
+ */
+export function selectSamplingModel(
+  models: Model[],
+  preferences: MCPSamplingRequest['modelPreferences'],
+  fallback?: Model
+): Model | undefined {
+  for (const hint of preferences?.hints || []) {
+    const name = hint.name?.toLowerCase();
+    const match = name && models.find(model =>
+      model.id.toLowerCase().includes(name) || model.name.toLowerCase().includes(name)
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  const costPriority = preferences?.costPriority ?? 0;
+  if (costPriority > (preferences?.speedPriority ?? 0) && costPriority > (preferences?.intelligencePriority ?? 0)) {
+    const priced = models.filter(model => model.inputCost !== undefined && !isNaN(model.inputCost));
+    if (priced.length > 0) {
+      return priced.reduce((cheapest, model) => model.inputCost! < cheapest.inputCost! ? model : cheapest);
+    }
+  }
+
+  return fallback;
+}
@@ -0,0 +1,44 @@
+// Full-page OAuth redirects, for browsers that block the authorization popup
+
+export type OAuthCallbackType = 'inference' | 'mcp';
+
+export interface OAuthRedirectResult {
+  type: OAuthCallbackType;
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+// sessionStorage keeps both values to this tab, which is the one the flow returns to
+const PENDING_KEY = 'oauth_redirect_pending';
+const RESULT_KEY = 'oauth_redirect_result';
+
+// Navigate this tab to the authorization server. PKCE state must already be saved,
+// since nothing in memory survives the navigation.
+export function redirectForAuthorization(type: OAuthCallbackType, authorizationUrl: string): void {
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify({ type, startedAt: Date.now() }));
+  window.location.assign(authorizationUrl);
+}
+
+// True when this tab left for the authorization server itself, rather than a popup losing its opener
+export function isOAuthRedirectPending(): boolean {
+  return sessionStorage.getItem(PENDING_KEY) !== null;
+}
+
+// Called on the callback page; the app picks the result up once it has loaded again
+export function saveOAuthRedirectResult(result: OAuthRedirectResult): void {
+  sessionStorage.removeItem(PENDING_KEY);
+  sessionStorage.setItem(RESULT_KEY, JSON.stringify(result));
+}
+
+// Returns the stored callback result for this type and removes it, so it is only processed once
+export function takeOAuthRedirectResult(type: OAuthCallbackType): OAuthRedirectResult | undefined {
+  const stored = sessionStorage.getItem(RESULT_KEY);
+  if (!stored) return undefined;
+
+  const result: OAuthRedirectResult = JSON.parse(stored);
+  if (result.type !== type) return undefined;
+
+  sessionStorage.removeItem(RESULT_KEY);
+  return result;
+}